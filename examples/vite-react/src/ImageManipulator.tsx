@@ -42,7 +42,10 @@ async function processImage(pool: ThreadPool | undefined, imageBitmap: ImageBitm
         let m: ImageBitmap
 
         if (pool) {
-            const {orig, result} = await pool.sendWork(params, {transfer: [imageBitmap]})
+            const {orig, result} = await pool.sendWork(params, {
+                transfer: [imageBitmap],
+                onProgress: (percent: number) => console.log(`processing ${Math.round(percent * 100)}%`),
+            })
             m = result
             setImageBitmap(orig)
         } else {
@@ -78,9 +78,10 @@ export function downscale(imageData: Uint8ClampedArray, width: number, height: n
     return newData
 }
 
-export function pixelate(imageData: ImageData, blockSize: number) {
+export function pixelate(imageData: ImageData, blockSize: number, onProgress?: (percent: number) => void) {
     const {width, height} = imageData
     for (let y = 0; y < height; y += blockSize) {
+        onProgress?.(y / height)
         for (let x = 0; x < width; x += blockSize) {
             const remainingX = width - x
             const remainingY = height - y
@@ -149,7 +150,7 @@ export interface ImageWork {
     pixelSize?: number
 }
 
-export function runWork(work: ImageWork) {
+export function runWork(work: ImageWork, onProgress?: (percent: number) => void) {
     // type: 'pixelate_image', buff: imagedata.data, height, width, algorithm
     const {imageBitmap, outWidth} = work
 
@@ -172,7 +173,7 @@ export function runWork(work: ImageWork) {
     const action: Algorithm = work.action
     if (action === "pixelate") {
         modified = downscale(origScaled.data, origScaled.width, origScaled.height, origScaled.colorSpace, outWidth || 500)
-        pixelate(modified, work.pixelSize || 50)
+        pixelate(modified, work.pixelSize || 50, onProgress)
     }
     else if (action === 'blur') {
         const blurSize = work.blurSize || 7
@@ -1,15 +1,15 @@
-import {registerHandler, ResponseWithTransfer} from 'peak-threads'
+import {registerHandler, ResponseWithTransfer, type WorkContext} from 'peak-threads'
 import {runWork} from "./imageManipulation.ts";
 import montecarlo from "./montecarlo.ts";
 
-registerHandler('work', (work: any) => {
+registerHandler('work', (work: any, {reportProgress}: WorkContext) => {
     if (work.type === 'montecarlo') {
         return montecarlo()
     }
     else if (work.type === 'pixelate_image') {
         console.log('received image')
 
-        const {orig, result} = runWork(work)
+        const {orig, result} = runWork(work, reportProgress)
 
         console.log('sending back image...')
         return new ResponseWithTransfer(
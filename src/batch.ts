@@ -0,0 +1,151 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * Options for batching messages sent between threads (see {@link ThreadOptions.batch})
+ */
+export interface BatchOptions {
+  /**
+   * How long (in milliseconds) to wait for more messages before sending a batch.
+   * Defaults to 0, which only batches messages sent in the same microtask
+   */
+  window?: number;
+}
+
+/**
+ * Gets the batch window for batch options, or null if batching is disabled
+ * @param options Batch options (`true` uses the defaults)
+ */
+export function batchWindow(
+  options: boolean | BatchOptions | undefined | null,
+): number | null {
+  if (!options) {
+    return null;
+  }
+  const ms = options === true ? 0 : options.window || 0;
+  return ms > 0 && isFinite(ms) ? ms : 0;
+}
+
+/**
+ * Checks if the options given to a postMessage call allow the message to be batched.
+ * Messages that transfer ownership are sent on their own so that transfers stay tied to their message
+ * @param options Options given to postMessage
+ */
+export function canBatch(options: any): boolean {
+  if (!options) {
+    return true;
+  }
+  if (Array.isArray(options)) {
+    return options.length === 0;
+  }
+  return !options.transfer?.length && !options.autoTransfer;
+}
+
+/**
+ * Queues messages and sends them together as a single `__batch` message
+ */
+export class MessageBatcher {
+  private window: number;
+  private send: (batch: any[]) => void;
+  private queue: any[] = [];
+  private timer: any = null;
+  private scheduled: boolean = false;
+
+  /**
+   * @param window How long to wait for more messages (0 waits until the end of the microtask)
+   * @param send Sends the batched messages
+   */
+  constructor(window: number, send: (batch: any[]) => void) {
+    this.window = window;
+    this.send = send;
+  }
+
+  /**
+   * Adds a message to the next batch
+   */
+  public push(message: any) {
+    this.queue.push(message);
+    if (this.scheduled) {
+      return;
+    }
+    this.scheduled = true;
+    if (this.window > 0) {
+      this.timer = setTimeout(() => this.flush(), this.window);
+    } else {
+      queueMicrotask(() => this.flush());
+    }
+  }
+
+  /**
+   * Sends any queued messages right away. Call before sending a message that isn't batched to keep messages in order
+   */
+  public flush() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.scheduled = false;
+    if (!this.queue.length) {
+      return;
+    }
+    const batch = this.queue;
+    this.queue = [];
+    this.send(batch);
+  }
+
+  /**
+   * Drops any queued messages
+   */
+  public clear() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.scheduled = false;
+    this.queue = [];
+  }
+}
+
+/**
+ * Checks if a message is a batch of messages
+ */
+export function isBatch(data: any): data is { __batch: any[] } {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    data.__system === true &&
+    Array.isArray(data.__batch)
+  );
+}
+
+/**
+ * Calls the message handler for every message in a batch (or just once for messages which aren't batched).
+ * Every message is handled even if an earlier one throws, in which case the first error is rethrown afterward
+ * @param e Message event that was received
+ * @param handler Handler for a single message
+ */
+export function unbatch(e: MessageEvent, handler: (e: MessageEvent) => any) {
+  if (!isBatch(e.data)) {
+    return handler(e);
+  }
+  let failed = false;
+  let error: unknown = undefined;
+  for (const data of e.data.__batch) {
+    try {
+      handler({ ...e, data } as MessageEvent);
+    } catch (err) {
+      if (!failed) {
+        failed = true;
+        error = err;
+      }
+    }
+  }
+  if (failed) {
+    throw error;
+  }
+}
@@ -0,0 +1,118 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { ValidationError } from "./errors.ts";
+
+/**
+ * Validates a value sent between threads.
+ * Return `false` (or a string describing the problem) if the value is invalid. Throwing an error also marks the value as invalid.
+ * Any other return value (including `undefined`) marks the value as valid.
+ */
+export type Validator<T> = (value: T) => boolean | string | void;
+
+/**
+ * Defines the messages a thread accepts and sends back. The type parameters are used to type {@link Thread},
+ * {@link SharedThread}, {@link ThreadPool} and {@link registerHandler}. The (optional) validators are run on both
+ * sides of the thread boundary, and any value that fails validation is rejected with a {@link ValidationError}.
+ *
+ * The main thread uses the contract given in the spawn/connect options, while worker threads use the contract given
+ * to {@link registerContract}.
+ *
+ * @typeParam Request Type of the work sent to the thread (given to `onwork`)
+ * @typeParam Response Type of the results sent back by the thread (returned by `onwork`)
+ * @typeParam Init Type of the initial data for the thread (given to `oninit`)
+ * @typeParam Event Type of the custom events sent to the thread with `sendEvent`
+ */
+export interface ThreadContract<
+  Request = any,
+  Response = any,
+  Init = any,
+  Event = any,
+> {
+  /** Name of the contract (used in validation errors) */
+  name?: string;
+  /** Validates work sent to the thread */
+  request?: Validator<Request>;
+  /** Validates results sent back from the thread */
+  response?: Validator<Response>;
+  /** Validates initial data for the thread */
+  init?: Validator<Init>;
+  /** Validates custom events sent to the thread */
+  event?: Validator<Event>;
+}
+
+/** Request type of a {@link ThreadContract} */
+export type ContractRequest<C> =
+  C extends ThreadContract<infer R, any, any, any> ? R : any;
+
+/** Response type of a {@link ThreadContract} */
+export type ContractResponse<C> =
+  C extends ThreadContract<any, infer R, any, any> ? R : any;
+
+/** Init data type of a {@link ThreadContract} */
+export type ContractInit<C> =
+  C extends ThreadContract<any, any, infer I, any> ? I : any;
+
+/** Event type of a {@link ThreadContract} */
+export type ContractEvent<C> =
+  C extends ThreadContract<any, any, any, infer E> ? E : any;
+
+const kindNames = {
+  request: "work request",
+  response: "work response",
+  init: "init data",
+  event: "event",
+};
+
+/**
+ * Runs the contract's validator for a value (if there is one). Throws a {@link ValidationError} if the value is invalid
+ * @param contract Contract to check against
+ * @param kind Which validator to run
+ * @param value Value to validate
+ */
+export function checkContract(
+  contract: ThreadContract | undefined,
+  kind: "request" | "response" | "init" | "event",
+  value: any,
+) {
+  const validator = contract?.[kind];
+  if (!validator) {
+    return;
+  }
+  const name = contract?.name || "unnamed";
+  let result: boolean | string | void;
+  try {
+    result = validator(value);
+  } catch (e: any) {
+    throw new ValidationError(name, kindNames[kind], e?.message || String(e));
+  }
+  if (result === false) {
+    throw new ValidationError(name, kindNames[kind]);
+  } else if (typeof result === "string") {
+    throw new ValidationError(name, kindNames[kind], result);
+  }
+}
+
+let workerContract: ThreadContract | undefined = undefined;
+
+/**
+ * Registers the contract for the current thread. Incoming work, init data and events, along with outgoing work
+ * results, will be validated against it. Meant to be called from a spawned thread (the main thread passes the
+ * contract in the spawn options instead).
+ * @param contract Contract to validate messages with
+ */
+export function registerContract(contract: ThreadContract | undefined) {
+  workerContract = contract;
+}
+
+/**
+ * Gets the contract registered with {@link registerContract} (if any)
+ */
+export function currentContract(): ThreadContract | undefined {
+  return workerContract;
+}
@@ -16,6 +16,74 @@ export class ThreadPoolClosedError extends Error {
   }
 }
 
+/**
+ * Exception to represent that work did not finish before its timeout
+ */
+export class WorkTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Work timed out after ${timeout}ms`);
+  }
+}
+
+/**
+ * Thrown when a proxy calls a method or reads a property that the thread did not expose
+ */
+export class NotExposedError extends Error {
+  constructor(name: string) {
+    super(`'${name}' is not exposed by the thread!`);
+  }
+}
+
+/**
+ * Thrown when a message sent between threads does not match the thread's contract
+ */
+export class ValidationError extends Error {
+  constructor(contract: string, what: string, problem?: string) {
+    super(
+      `Invalid ${what} for contract '${contract}'` +
+        (problem ? `: ${problem}` : "!"),
+    );
+  }
+}
+
+/**
+ * Thrown when calling a proxied function (see {@link proxyFunction}) after it was released
+ */
+export class ProxyReleasedError extends Error {
+  constructor() {
+    super("Proxied function was released!");
+  }
+}
+
+/**
+ * Thrown when a thread sends a request to a parent which has no request handler
+ */
+export class NoRequestHandlerError extends Error {
+  constructor() {
+    super("No request handler registered!");
+  }
+}
+
+/**
+ * Thrown when a thread is created from a function, but the URL of the threads library could not be determined
+ */
+export class UnknownRuntimeUrlError extends Error {
+  constructor() {
+    super(
+      "Could not determine the URL of the threads library! Provide the runtimeUrl option",
+    );
+  }
+}
+
+/**
+ * Thrown when a feature isn't supported by the current runtime (e.g. shared workers in Node.js)
+ */
+export class UnsupportedRuntimeError extends Error {
+  constructor(feature: string, runtime: string) {
+    super(`${feature} is not supported in the ${runtime} runtime!`);
+  }
+}
+
 /**
  * Thrown when a DeHydration registration request was malformed
  */
@@ -56,6 +124,17 @@ export class ThreadSpawnFailedError extends Error {
   }
 }
 
+/**
+ * Reported when a supervised thread restarts too often, after which its {@link Supervisor} stops (see {@link SupervisorOptions.maxRestarts})
+ */
+export class RestartLimitError extends Error {
+  constructor(name: string, restarts: number, period: number) {
+    super(
+      `Thread '${name}' needed more than ${restarts} restarts in ${period}ms!`,
+    );
+  }
+}
+
 /**
  * Exception to represent that a provided address is an invalid location to store
  * a shared data structure
@@ -0,0 +1,104 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * Lifecycle event dispatched by a {@link Thread}, {@link SharedThread} or {@link ThreadPool} (see {@link ThreadEventMap})
+ */
+export class ThreadEvent<T = undefined> extends Event {
+  /** Id of the thread the event is about */
+  public readonly threadId: string;
+  /** Data for the event (e.g. the message which was received) */
+  public readonly detail: T;
+
+  /**
+   * @param type Type of the event
+   * @param threadId Id of the thread the event is about
+   * @param detail Data for the event
+   */
+  constructor(type: string, threadId: string, detail: T) {
+    super(type);
+    this.threadId = threadId;
+    this.detail = detail;
+  }
+}
+
+/**
+ * Events dispatched by a {@link Thread} or {@link SharedThread}
+ */
+export interface ThreadEventMap {
+  /** The thread sent a custom message. The detail is the message event */
+  message: ThreadEvent<MessageEvent>;
+  /** The thread transferred ownership of something with `transfer`. The detail is the transfer's message */
+  transfer: ThreadEvent<any>;
+  /** The thread sent an error, or there was an error with the underlying worker. The detail is the error */
+  error: ThreadEvent<any>;
+  /** The thread stopped running (or the connection to a shared thread closed) */
+  close: ThreadEvent<undefined>;
+  /** The thread got a pending request after having none */
+  busy: ThreadEvent<undefined>;
+  /** The thread no longer has any pending requests */
+  idle: ThreadEvent<undefined>;
+}
+
+/**
+ * Events dispatched by a {@link ThreadPool}. Events from the pool's threads are dispatched by the pool as well,
+ * with the id of the thread they came from
+ */
+export interface ThreadPoolEventMap extends ThreadEventMap {
+  /** The pool spawned a new thread */
+  spawn: ThreadEvent<undefined>;
+  /** The pool replaced a thread which closed. The detail is the id of the thread which was replaced */
+  respawn: ThreadEvent<string>;
+}
+
+/**
+ * Event target with typed lifecycle events
+ */
+export class ThreadEventTarget<M> extends EventTarget {
+  public addEventListener<K extends keyof M & string>(
+    type: K,
+    listener: ((event: M[K]) => any) | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  public addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  public addEventListener(type: string, listener: any, options?: any) {
+    super.addEventListener(type, listener, options);
+  }
+
+  public removeEventListener<K extends keyof M & string>(
+    type: K,
+    listener: ((event: M[K]) => any) | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  public removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  public removeEventListener(type: string, listener: any, options?: any) {
+    super.removeEventListener(type, listener, options);
+  }
+
+  /**
+   * Dispatches a lifecycle event
+   * @param type Type of the event
+   * @param threadId Id of the thread the event is about
+   * @param detail Data for the event
+   */
+  protected emit<K extends keyof M & string>(
+    type: K,
+    threadId: string,
+    detail?: M[K] extends ThreadEvent<infer T> ? T : never,
+  ) {
+    this.dispatchEvent(new ThreadEvent(type, threadId, detail));
+  }
+}
@@ -0,0 +1,236 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * Severity of a log record, from least to most severe
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * What part of the library a log record came from
+ *  - `spawn` - creating, initializing and linking threads
+ *  - `messaging` - sending and receiving messages and work
+ *  - `hydration` - dehydrating and hydrating values sent between threads
+ *  - `pool` - thread pool scheduling
+ *  - `shutdown` - closing, killing and disconnecting threads
+ */
+export type LogCategory =
+  | "spawn"
+  | "messaging"
+  | "hydration"
+  | "pool"
+  | "shutdown";
+
+/**
+ * A structured log record
+ */
+export interface LogRecord {
+  /** Severity of the record */
+  level: LogLevel;
+  /** What part of the library logged the record */
+  category: LogCategory;
+  /** Human readable message */
+  message: string;
+  /** Id of the thread which logged the record (see {@link curThread}) */
+  threadId: string;
+  /** Id of the work the record is about (if any) */
+  workId?: string;
+  /** Extra data for the record (e.g. the message that was received) */
+  data?: any;
+  /** When the record was logged (milliseconds since the epoch) */
+  time: number;
+}
+
+/**
+ * Receives log records. Records are only given to the logger if they pass the level and category filters
+ */
+export interface Logger {
+  log(record: LogRecord): void;
+}
+
+/**
+ * Options for logging (see {@link configureLogging})
+ */
+export interface LoggingOptions {
+  /** Minimum level to log, or "silent" to log nothing. Defaults to "warn" */
+  level?: LogLevel | "silent";
+  /** Categories to log. Set to null to log all categories (the default) */
+  categories?: LogCategory[] | null;
+  /** Logger to send records to. Defaults to {@link consoleLogger} */
+  logger?: Logger;
+  /**
+   * If true, then records are sent to the parent thread and logged with the parent's logger (after the parent's
+   * filters are applied) instead of being logged in the current thread. Only applies to dedicated worker threads
+   */
+  forwardToParent?: boolean;
+}
+
+const levels: { [level in LogLevel | "silent"]: number } = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Logs records with the console. Each record is prefixed with the thread id
+ */
+export const consoleLogger: Logger = {
+  log(record: LogRecord) {
+    const prefix =
+      record.threadId + (record.workId ? ` (work ${record.workId})` : "");
+    const args = record.data === undefined ? [] : [record.data];
+    switch (record.level) {
+      case "debug":
+        console.log(prefix, record.message, ...args);
+        break;
+      case "info":
+        console.info(prefix, record.message, ...args);
+        break;
+      case "warn":
+        console.warn(prefix, record.message, ...args);
+        break;
+      case "error":
+        console.error(prefix, record.message, ...args);
+        break;
+    }
+  },
+};
+
+let minLevel: number = levels.warn;
+let categories: Set<LogCategory> | null = null;
+let logger: Logger = consoleLogger;
+let forwardToParent: boolean = false;
+let forwarder: ((record: LogRecord) => void) | null = null;
+let forwarding: boolean = false;
+let logThreadId: string = "main";
+
+/**
+ * Configures logging for the current thread. Must be configured per-thread (including the main thread).
+ * Only the given options are changed, so options can be configured separately.
+ *
+ * Records include the id of the thread which logged them. Thread ids show the hierarchy that they were spawned with
+ * (e.g. `main->4->1->10`) and which child thread it was in each hierarchy.
+ *
+ * @param options Logging options
+ */
+export function configureLogging(options: LoggingOptions) {
+  if (options.level !== undefined) {
+    minLevel = levels[options.level];
+  }
+  if (options.categories !== undefined) {
+    categories =
+      options.categories === null
+        ? null
+        : new Set<LogCategory>(options.categories);
+  }
+  if (options.logger !== undefined) {
+    logger = options.logger;
+  }
+  if (options.forwardToParent !== undefined) {
+    forwardToParent = options.forwardToParent;
+  }
+}
+
+/**
+ * Sets whether the built-in debug logs should be turned on or not. Must be turned on per-thread (including the main thread).
+ * Shorthand for setting the log level to "debug" (or back to "warn") with {@link configureLogging}.
+ *
+ * Primary use is for debugging complex thread interactions. Each debug log will be prefixed with the {@link Thread} id.
+ *
+ * @param logging Set to `true` to turn on logs, `false` to turn off (off by default)
+ */
+export function setLogging(logging: boolean) {
+  configureLogging({ level: logging ? "debug" : "warn" });
+}
+
+/**
+ * Checks if records with a level and category would be logged
+ */
+export function isLogged(level: LogLevel, category: LogCategory): boolean {
+  return (
+    levels[level] >= minLevel &&
+    (categories === null || categories.has(category))
+  );
+}
+
+/**
+ * Logs a record for the current thread (if it passes the filters)
+ * @param level Severity of the record
+ * @param category What part of the library the record is from
+ * @param message Message to log, or a function which builds the message (only called if the record is logged)
+ * @param data Extra data for the record
+ * @param workId Id of the work the record is about
+ */
+export function log(
+  level: LogLevel,
+  category: LogCategory,
+  message: string | (() => string),
+  data?: any,
+  workId?: string,
+) {
+  if (!isLogged(level, category)) {
+    return;
+  }
+  const record: LogRecord = {
+    level,
+    category,
+    message: typeof message === "function" ? message() : message,
+    threadId: logThreadId,
+    time: Date.now(),
+  };
+  if (workId !== undefined) {
+    record.workId = workId;
+  }
+  if (data !== undefined) {
+    record.data = data;
+  }
+  emitLog(record);
+}
+
+/**
+ * Sends a record to the logger, or to the parent thread if records are forwarded.
+ * Used for records logged by the current thread and records forwarded by child threads
+ */
+export function emitLog(record: LogRecord) {
+  if (!isLogged(record.level, record.category)) {
+    return;
+  }
+  // records logged while forwarding would be forwarded forever, so they're logged locally
+  if (forwardToParent && forwarder && !forwarding) {
+    forwarding = true;
+    try {
+      forwarder(record);
+      return;
+    } catch {
+      // the record couldn't be sent (e.g. its data can't be cloned), so log it here instead
+    } finally {
+      forwarding = false;
+    }
+  }
+  try {
+    logger.log(record);
+  } catch (e) {
+    console.error("Logger failed!", e, record);
+  }
+}
+
+/**
+ * Sets how records are forwarded to the parent thread. Set by the library in dedicated worker threads
+ */
+export function setLogForwarder(forward: ((record: LogRecord) => void) | null) {
+  forwarder = forward;
+}
+
+/**
+ * Sets the thread id which is added to log records. Set by the library when a thread is initialized
+ */
+export function setLogThreadId(threadId: string) {
+  logThreadId = threadId;
+}
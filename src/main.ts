@@ -16,26 +16,110 @@ export {
 export { Semaphore, type DehydratedSemaphore } from "./semaphore.ts";
 export {
   Thread,
-  setLogging,
   registerDeHydration,
+  unregisterDeHydration,
+  registerErrorClass,
+  setStackStitching,
+  type ErrorClass,
   numMessagesProcessing,
   sendError,
   curThread,
+  childThreads,
   transfer,
+  heartbeat,
   isDedicatedWorker,
   isSharedWorker,
   SharedThread,
   Connection,
+  PeerThread,
   type DehydrationClass,
   type DehydrationFunctions,
   type ThreadOptions,
+  type FunctionThreadOptions,
+  type HeartbeatOptions,
+  type SendWorkOptions,
+  type CloseOptions,
+  type CloseResult,
+  type AbandonedWork,
+  type TransferOptions,
+  type AutoTransferOptions,
+  type StreamWorkOptions,
+  type WorkContext,
   ResponseWithTransfer,
   ResponseWithOptions,
   isTransferable,
+  proxyFunction,
+  requestParent,
+  releaseProxy,
+  ProxiedFunction,
   type TransferableFunction,
   type TransferableFetchers,
 } from "./thread.ts";
-export { ThreadPool, type ThreadPoolOptions } from "./threadPool.ts";
+export {
+  ThreadPool,
+  type ThreadPoolOptions,
+  type PriorityOptions,
+} from "./threadPool.ts";
+export {
+  Supervisor,
+  type ChildSpec,
+  type SupervisorOptions,
+  type BackoffOptions,
+  type RestartStrategy,
+  type SupervisorEventMap,
+} from "./supervisor.ts";
+export { WorkStream } from "./workStream.ts";
+export { type BatchOptions } from "./batch.ts";
+export {
+  ThreadEvent,
+  type ThreadEventMap,
+  type ThreadPoolEventMap,
+} from "./events.ts";
+export {
+  setLogging,
+  configureLogging,
+  consoleLogger,
+  type Logger,
+  type LogLevel,
+  type LogCategory,
+  type LogRecord,
+  type LoggingOptions,
+} from "./logger.ts";
+export {
+  setTracer,
+  type Tracer,
+  type Span,
+  type TraceContext,
+} from "./tracing.ts";
+export {
+  type ThreadStats,
+  type ThreadPoolStats,
+  type HistogramSnapshot,
+} from "./stats.ts";
+export {
+  setRuntime,
+  getRuntime,
+  browserRuntime,
+  nodeRuntime,
+  type ThreadRuntime,
+  type RuntimeWorker,
+  type RuntimeWorkerOptions,
+} from "./runtime.ts";
+export {
+  expose,
+  type Remote,
+  type RemoteObject,
+  type ProxyOptions,
+} from "./proxy.ts";
+export {
+  registerContract,
+  type ThreadContract,
+  type Validator,
+  type ContractRequest,
+  type ContractResponse,
+  type ContractInit,
+  type ContractEvent,
+} from "./contract.ts";
 export { Address, make, type DehydratedAddress } from "./memory.ts";
 export {
   type ElementLayoutItem,
@@ -57,4 +141,12 @@ export {
   OutOfBoundsError,
   InvalidAddressError,
   ThreadClosedError,
+  WorkTimeoutError,
+  NotExposedError,
+  ValidationError,
+  ProxyReleasedError,
+  NoRequestHandlerError,
+  UnknownRuntimeUrlError,
+  UnsupportedRuntimeError,
+  RestartLimitError,
 } from "./errors.ts";
@@ -0,0 +1,136 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import {
+  isSharedWorker,
+  type SendWorkOptions,
+  type ThreadWorker,
+} from "./thread.ts";
+import { registerHandler, registerSharedHandler } from "./registerHandler.ts";
+import { NotExposedError } from "./errors.ts";
+
+/**
+ * Remote version of a value exposed by a thread (see {@link expose}).
+ *
+ * Functions become async functions which call the function in the thread.
+ * Everything else can be awaited to get its value from the thread, and nested properties can be accessed on it.
+ */
+export type Remote<T> = T extends (...args: infer A) => infer R
+  ? (...args: A) => Promise<Awaited<R>>
+  : PromiseLike<Awaited<T>> &
+      (T extends object ? { readonly [K in keyof T]: Remote<T[K]> } : unknown);
+
+/**
+ * Remote version of an object exposed by a thread (see {@link expose}). Returned by the `proxy` method on threads.
+ */
+export type RemoteObject<T> = { readonly [K in keyof T]: Remote<T[K]> };
+
+/**
+ * Options for creating a proxy to an exposed object. These are used for every call made through the proxy
+ */
+export type ProxyOptions = Omit<SendWorkOptions, "transfer">;
+
+/**
+ * Work sent by proxies to call a method or get a property
+ */
+interface ProxyWork {
+  __rpc: string[];
+  args?: any[];
+}
+
+// don't let callers walk up into prototypes
+const blockedKeys = new Set<string>(["__proto__", "prototype", "constructor"]);
+
+function runProxyWork(api: any, work: ProxyWork) {
+  if (!work || typeof work !== "object" || !Array.isArray(work.__rpc)) {
+    throw new NotExposedError(String(work));
+  }
+  const name = work.__rpc.join(".");
+  let parent: any = null;
+  let target: any = api;
+  for (const key of work.__rpc) {
+    if (
+      target === null ||
+      typeof target === "undefined" ||
+      blockedKeys.has(key) ||
+      !(key in Object(target))
+    ) {
+      throw new NotExposedError(name);
+    }
+    parent = target;
+    target = target[key];
+  }
+
+  if ("args" in work) {
+    if (typeof target !== "function") {
+      throw new NotExposedError(name);
+    }
+    return target.apply(parent, work.args || []);
+  }
+  return target;
+}
+
+/**
+ * Exposes an object so other threads can call its methods and read its properties by name (see the `proxy` method
+ * on {@link Thread}, {@link SharedThread} and {@link ThreadPool}).
+ * This registers the `work` handler, so it replaces any existing `onwork` handler.
+ *
+ * Can only be called from a {@link Thread} that is spawned (not from the main thread).
+ *
+ * @param api Object to expose. Nested objects, class instances and getters are supported
+ */
+export function expose(api: any) {
+  if (isSharedWorker()) {
+    registerSharedHandler("work", (_conn, work: ProxyWork) =>
+      runProxyWork(api, work),
+    );
+  } else {
+    registerHandler("work", (work: ProxyWork) => runProxyWork(api, work));
+  }
+}
+
+function createProxy(
+  worker: ThreadWorker,
+  path: string[],
+  options?: ProxyOptions,
+): any {
+  // the target is a function so that the proxy can be called
+  return new Proxy(function () {}, {
+    get(_, prop) {
+      if (typeof prop === "symbol") {
+        return undefined;
+      }
+      if (prop === "then") {
+        // the root object isn't a value we can fetch, and it must not look like a promise
+        if (path.length === 0) {
+          return undefined;
+        }
+        const work: ProxyWork = { __rpc: path };
+        return (res: any, rej: any) =>
+          worker.sendWork(work, options).then(res, rej);
+      }
+      return createProxy(worker, [...path, prop], options);
+    },
+    apply(_, _thisArg, args) {
+      const work: ProxyWork = { __rpc: path, args };
+      return worker.sendWork(work, options);
+    },
+  });
+}
+
+/**
+ * Creates a proxy which sends method calls and property reads as work to an object exposed with {@link expose}
+ * @param worker Thread to send work to
+ * @param options Options used for every call made through the proxy
+ */
+export function makeProxy<T>(
+  worker: ThreadWorker,
+  options?: ProxyOptions,
+): RemoteObject<T> {
+  return createProxy(worker, [], options);
+}
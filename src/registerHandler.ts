@@ -6,18 +6,42 @@
     file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
-import type { Connection } from "./thread.ts";
+import type { Connection, WorkContext } from "./thread.ts";
+import type {
+  ContractEvent,
+  ContractInit,
+  ContractRequest,
+  ThreadContract,
+} from "./contract.ts";
 import { NotInWorkerThread } from "./errors.ts";
 
 /**
  * Registers a global handler. Can only be called from a {@link Thread} that is spawned (not from the main thread).
  *
- * @param type Type of handler to register (event = onevent, init = oninit, share = onshare, etc.)
+ * The `work`, `init` and `event` handlers can be typed with a {@link ThreadContract} (e.g. `registerHandler<typeof contract>("work", ...)`).
+ *
+ * @param type Type of handler to register (event = onevent, init = oninit, share = onshare, link = onlink, etc.)
  * @param handler Handler function to register
  * @constructor
  */
+export function registerHandler<C extends ThreadContract = ThreadContract>(
+  type: "work",
+  handler: (work: ContractRequest<C>, ctx: WorkContext) => any,
+): void;
+export function registerHandler<C extends ThreadContract = ThreadContract>(
+  type: "init",
+  handler: (init: ContractInit<C>) => any,
+): void;
+export function registerHandler<C extends ThreadContract = ThreadContract>(
+  type: "event",
+  handler: (event: MessageEvent<ContractEvent<C>>) => any,
+): void;
 export function registerHandler(
-  type: "init" | "event" | "share" | "transfer" | "work" | "close",
+  type: "init" | "event" | "share" | "transfer" | "work" | "close" | "link",
+  handler: (_?: any, _1?: any) => any,
+): void;
+export function registerHandler(
+  type: "init" | "event" | "share" | "transfer" | "work" | "close" | "link",
   handler: (_?: any, _1?: any) => any,
 ) {
   if (self) {
@@ -40,6 +64,9 @@ export function registerHandler(
       case "close":
         (self as any).onclose = handler;
         break;
+      case "link":
+        (self as any).onlink = handler;
+        break;
     }
   } else {
     throw new NotInWorkerThread("registerHandler");
@@ -49,9 +76,45 @@ export function registerHandler(
 /**
  * Registers a global handler. Can only be called from a {@link Thread} that is spawned (not from the main thread).
  *
+ * The `work`, `init` and `event` handlers can be typed with a {@link ThreadContract} (e.g. `registerSharedHandler<typeof contract>("work", ...)`).
+ *
  * @param type Type of handler to register (event = onevent, init = oninit, share = onshare, etc.)
  * @param handler Handler function to register (takes an additional {@link Connection} parameter for the first argument)
  */
+export function registerSharedHandler<
+  C extends ThreadContract = ThreadContract,
+>(
+  type: "work",
+  handler: (
+    conn: Connection,
+    work: ContractRequest<C>,
+    ctx: WorkContext,
+  ) => any,
+): void;
+export function registerSharedHandler<
+  C extends ThreadContract = ThreadContract,
+>(
+  type: "init",
+  handler: (conn: Connection, init: ContractInit<C>) => any,
+): void;
+export function registerSharedHandler<
+  C extends ThreadContract = ThreadContract,
+>(
+  type: "event",
+  handler: (conn: Connection, event: MessageEvent<ContractEvent<C>>) => any,
+): void;
+export function registerSharedHandler(
+  type:
+    | "init"
+    | "event"
+    | "share"
+    | "transfer"
+    | "work"
+    | "close"
+    | "connect"
+    | "connection",
+  handler: (conn: Connection, _?: any, _1?: any) => any,
+): void;
 export function registerSharedHandler(
   type:
     | "init"
@@ -0,0 +1,240 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import type * as WorkerThreads from "node:worker_threads";
+import type * as Os from "node:os";
+import type * as Url from "node:url";
+import { UnsupportedRuntimeError } from "./errors.ts";
+
+/**
+ * The parts of a dedicated worker which {@link Thread} uses. Matches the browser's `Worker` interface
+ */
+export interface RuntimeWorker {
+  postMessage(message: any, options?: any): void;
+  terminate(): void;
+  onmessage: ((e: MessageEvent) => any) | null;
+  onerror: ((e: any) => any) | null;
+  onmessageerror: ((e: MessageEvent) => any) | null;
+  /** Called with the exit code when the worker stops running. Only set by runtimes which can tell (e.g. Node.js) */
+  onexit?: ((code: number) => any) | null;
+}
+
+/**
+ * Options for creating a worker. Runtimes may ignore options they don't support
+ */
+export interface RuntimeWorkerOptions {
+  type?: "classic" | "module";
+  name?: string;
+  credentials?: "omit" | "same-origin" | "include";
+}
+
+/**
+ * Adapter for the JavaScript runtime threads are created in. The runtime is detected automatically, but a custom
+ * adapter can be provided with {@link setRuntime}.
+ *
+ * Worker threads must look like browser workers to the library (i.e. have `self`, `postMessage`, `close` and
+ * `self.onmessage`). Adapters for other runtimes should set those up in worker threads before the library loads.
+ */
+export interface ThreadRuntime {
+  /** Name of the runtime (e.g. "browser" or "node") */
+  name: string;
+  /** Creates a dedicated worker running a script */
+  createWorker(script: string, options: RuntimeWorkerOptions): RuntimeWorker;
+  /** Creates a shared worker running a script (leave undefined if the runtime doesn't have shared workers) */
+  createSharedWorker?: (
+    script: string,
+    options: RuntimeWorkerOptions,
+  ) => SharedWorker;
+  /** Number of threads which can run in parallel (used for sizing thread pools) */
+  hardwareConcurrency(): number;
+}
+
+/**
+ * Runtime for browsers (and any runtime with browser-compatible workers)
+ */
+export const browserRuntime: ThreadRuntime = {
+  name: "browser",
+  createWorker(script, options) {
+    return new Worker(script, options);
+  },
+  createSharedWorker(script, options) {
+    return new SharedWorker(script, options);
+  },
+  hardwareConcurrency() {
+    return (
+      (typeof navigator !== "undefined" && navigator.hardwareConcurrency) || 2
+    );
+  },
+};
+
+// marks node workers created by this library, so that we don't take over other workers' parent ports
+const nodeWorkerMarker = "__peakThreadsWorker";
+
+function isNode(): boolean {
+  return (
+    typeof window === "undefined" &&
+    typeof process !== "undefined" &&
+    !!process.versions?.node
+  );
+}
+
+function nodeModule<T>(name: string): T {
+  if (typeof process.getBuiltinModule === "function") {
+    return process.getBuiltinModule(name) as T;
+  }
+  // older versions of node only have require (and only in CommonJS)
+  return require(name);
+}
+
+function nodeTransferList(options: any): any {
+  if (Array.isArray(options)) {
+    return options;
+  }
+  return options?.transfer;
+}
+
+/**
+ * Wraps a worker_threads worker so that it looks like a browser worker
+ */
+class NodeWorker implements RuntimeWorker {
+  public onmessage: ((e: MessageEvent) => any) | null = null;
+  public onerror: ((e: any) => any) | null = null;
+  public onmessageerror: ((e: MessageEvent) => any) | null = null;
+  public onexit: ((code: number) => any) | null = null;
+  private worker: WorkerThreads.Worker;
+
+  constructor(script: string, options: RuntimeWorkerOptions) {
+    const { Worker } = nodeModule<typeof WorkerThreads>("node:worker_threads");
+    // worker_threads only takes URLs as URL objects
+    const url = /^(file|data):/.test(script) ? new URL(script) : script;
+    this.worker = new Worker(url, {
+      name: options.name,
+      workerData: { [nodeWorkerMarker]: true },
+    });
+    this.worker.on(
+      "message",
+      (data) => this.onmessage && this.onmessage({ data } as MessageEvent),
+    );
+    // uncaught errors stop the worker, so they're followed by an exit
+    this.worker.on("error", (err) => this.onerror && this.onerror(err));
+    this.worker.on("exit", (code) => this.onexit && this.onexit(code));
+    this.worker.on(
+      "messageerror",
+      (err) =>
+        this.onmessageerror &&
+        this.onmessageerror({ data: err } as MessageEvent),
+    );
+  }
+
+  public postMessage(message: any, options?: any) {
+    this.worker.postMessage(message, nodeTransferList(options));
+  }
+
+  public terminate() {
+    this.worker.terminate();
+  }
+}
+
+/**
+ * Runtime for Node.js which uses worker_threads.
+ * Scripts are resolved the way worker_threads resolves them (i.e. absolute paths, paths starting with "./" or "../"
+ * relative to the current working directory, or file URLs).
+ * Whether a script is an ES module is determined by Node, so the `type` option is ignored.
+ */
+export const nodeRuntime: ThreadRuntime = {
+  name: "node",
+  createWorker(script, options) {
+    return new NodeWorker(script, options);
+  },
+  hardwareConcurrency() {
+    const os = nodeModule<typeof Os>("node:os");
+    return (
+      (typeof os.availableParallelism === "function"
+        ? os.availableParallelism()
+        : os.cpus().length) || 2
+    );
+  },
+};
+
+/**
+ * Makes a worker_threads worker look like a browser worker so the rest of the library can run unchanged
+ */
+function installNodeWorkerScope() {
+  const { parentPort, workerData } = nodeModule<typeof WorkerThreads>(
+    "node:worker_threads",
+  );
+  if (!parentPort || !workerData || !workerData[nodeWorkerMarker]) {
+    return;
+  }
+
+  const scope = globalThis as any;
+  scope.self = scope;
+  scope.postMessage = (message: any, options?: any) =>
+    parentPort.postMessage(message, nodeTransferList(options));
+  scope.close = () => {
+    // closing the port first makes sure queued messages get sent before the thread exits
+    parentPort.once("close", () => process.exit(0));
+    parentPort.close();
+  };
+  parentPort.on(
+    "message",
+    (data) => scope.onmessage && scope.onmessage({ data }),
+  );
+}
+
+let runtime: ThreadRuntime = isNode() ? nodeRuntime : browserRuntime;
+
+if (runtime === nodeRuntime) {
+  installNodeWorkerScope();
+}
+
+/**
+ * Gets the URL which relative script URLs are resolved against. In browsers it's the page's (or worker's) URL,
+ * and in Node.js it's the current working directory
+ */
+export function scriptBaseUrl(): string | undefined {
+  if (typeof location !== "undefined") {
+    return location.href;
+  }
+  if (isNode()) {
+    const { pathToFileURL } = nodeModule<typeof Url>("node:url");
+    return pathToFileURL(process.cwd() + "/").href;
+  }
+  return undefined;
+}
+
+/**
+ * Sets the runtime adapter used to create threads. Only needed for runtimes which aren't detected automatically.
+ * Must be called before any threads are created
+ * @param newRuntime Runtime to use
+ */
+export function setRuntime(newRuntime: ThreadRuntime) {
+  runtime = newRuntime;
+}
+
+/**
+ * Gets the runtime adapter used to create threads
+ */
+export function getRuntime(): ThreadRuntime {
+  return runtime;
+}
+
+/**
+ * Creates a shared worker with the current runtime, throwing if the runtime doesn't support them
+ * @param script Script for the shared worker
+ * @param options Options for the shared worker
+ */
+export function createSharedWorker(
+  script: string,
+  options: RuntimeWorkerOptions,
+): SharedWorker {
+  if (!runtime.createSharedWorker) {
+    throw new UnsupportedRuntimeError("SharedWorker", runtime.name);
+  }
+  return runtime.createSharedWorker(script, options);
+}
@@ -0,0 +1,191 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * Snapshot of a histogram of durations (in milliseconds)
+ */
+export interface HistogramSnapshot {
+  /** Number of recorded durations */
+  count: number;
+  /** Sum of the recorded durations */
+  sum: number;
+  /** Shortest recorded duration (0 if nothing was recorded) */
+  min: number;
+  /** Longest recorded duration (0 if nothing was recorded) */
+  max: number;
+  /** Number of durations in each bucket. A duration goes in the first bucket whose upper bound (`le`) is at least the duration */
+  buckets: { le: number; count: number }[];
+}
+
+/**
+ * Statistics for a {@link Thread} (see {@link Thread.stats})
+ */
+export interface ThreadStats {
+  /** Number of pieces of work sent to the thread */
+  workSent: number;
+  /** Number of pieces of work which finished successfully */
+  workCompleted: number;
+  /** Number of pieces of work which failed (including work which was cancelled or timed out) */
+  workFailed: number;
+  /** Number of requests waiting for a response (see {@link Thread.numPendingRequests}) */
+  pending: number;
+  /** Time from sending work until its result was received */
+  roundTrip: HistogramSnapshot;
+  /** Time the thread spent running work (as reported by the thread) */
+  execution: HistogramSnapshot;
+  /** Number of items (e.g. buffers and ports) transferred to the thread */
+  itemsTransferred: number;
+  /** Number of bytes of `ArrayBuffer`s transferred to the thread */
+  bytesTransferred: number;
+}
+
+/**
+ * Statistics for a {@link ThreadPool} (see {@link ThreadPool.stats}).
+ * Work counters and the round trip time are for work sent to the pool (so retries aren't counted as separate work),
+ * while the execution time and transfers are added up from the pool's threads (including threads which have closed)
+ */
+export interface ThreadPoolStats extends ThreadStats {
+  /** Number of live threads in the pool */
+  size: number;
+  /** Maximum number of threads in the pool */
+  capacity: number;
+  /** Time spent waiting for the pool to pick a thread */
+  queueWait: HistogramSnapshot;
+  /** Number of times work was retried on another thread because its thread closed */
+  retries: number;
+  /** Number of threads which were respawned after closing */
+  respawns: number;
+}
+
+// upper bounds (in milliseconds) of the histogram buckets
+const bucketBounds = [
+  1,
+  2,
+  5,
+  10,
+  25,
+  50,
+  100,
+  250,
+  500,
+  1000,
+  2500,
+  5000,
+  10000,
+  Infinity,
+];
+
+/**
+ * Histogram of durations (in milliseconds) with fixed buckets
+ */
+export class Histogram {
+  private counts: number[] = bucketBounds.map(() => 0);
+  private count: number = 0;
+  private sum: number = 0;
+  private min: number = Infinity;
+  private max: number = 0;
+
+  /**
+   * Records a duration. Invalid durations (e.g. negative) are ignored
+   */
+  public record(ms: number) {
+    if (typeof ms !== "number" || !(ms >= 0)) {
+      return;
+    }
+    ++this.count;
+    this.sum += ms;
+    this.min = Math.min(this.min, ms);
+    this.max = Math.max(this.max, ms);
+    const bucket = bucketBounds.findIndex((le) => ms <= le);
+    ++this.counts[bucket];
+  }
+
+  /**
+   * Adds the durations from a snapshot of another histogram
+   */
+  public merge(other: HistogramSnapshot) {
+    if (!other.count) {
+      return;
+    }
+    this.count += other.count;
+    this.sum += other.sum;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+    other.buckets.forEach(({ count }, i) => (this.counts[i] += count));
+  }
+
+  /**
+   * Gets a snapshot of the histogram
+   */
+  public snapshot(): HistogramSnapshot {
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: this.count ? this.min : 0,
+      max: this.max,
+      buckets: bucketBounds.map((le, i) => ({ le, count: this.counts[i] })),
+    };
+  }
+}
+
+/**
+ * Calls listeners with the latest stats on an interval (see {@link Thread.subscribeStats})
+ */
+export class StatsPublisher<T> {
+  private read: () => T;
+  private timers: Set<any> = new Set<any>();
+
+  /**
+   * @param read Reads the latest stats
+   */
+  constructor(read: () => T) {
+    this.read = read;
+  }
+
+  /**
+   * Calls a listener with the latest stats every interval
+   * @param listener Listener to call
+   * @param interval How often (in milliseconds) to call the listener
+   * @return Function which stops calling the listener
+   */
+  public subscribe(listener: (stats: T) => any, interval: number): () => void {
+    const timer = setInterval(() => listener(this.read()), interval);
+    this.timers.add(timer);
+    return () => {
+      clearInterval(timer);
+      this.timers.delete(timer);
+    };
+  }
+
+  /**
+   * Stops calling every listener
+   */
+  public clear() {
+    for (const timer of this.timers) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+  }
+}
+
+/**
+ * Counts the items and bytes in a transfer list
+ * @param transfer Items being transferred
+ */
+export function transferSize(transfer: any[]): {
+  items: number;
+  bytes: number;
+} {
+  let bytes = 0;
+  for (const item of transfer) {
+    if (item instanceof ArrayBuffer) {
+      bytes += item.byteLength;
+    }
+  }
+  return { items: transfer.length, bytes };
+}
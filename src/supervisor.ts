@@ -0,0 +1,282 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import {
+  Thread,
+  type CloseOptions,
+  type CloseResult,
+  type ThreadOptions,
+} from "./thread.ts";
+import { ThreadEventTarget, type ThreadEvent } from "./events.ts";
+import { log } from "./logger.ts";
+import { type ThreadContract } from "./contract.ts";
+import { RestartLimitError } from "./errors.ts";
+
+/**
+ * How a {@link Supervisor} restarts its threads when one of them closes
+ *  - `one-for-one` - only the thread which closed is restarted
+ *  - `one-for-all` - every thread is closed and restarted (for threads which depend on each other)
+ */
+export type RestartStrategy = "one-for-one" | "one-for-all";
+
+/**
+ * Describes a thread run by a {@link Supervisor}
+ */
+export interface ChildSpec<C extends ThreadContract = ThreadContract> {
+  /** Name of the thread (see {@link Supervisor.thread}). Must be unique within the supervisor */
+  name: string;
+  /** URI for the script the thread runs (see {@link Thread.spawn}) */
+  script: string;
+  /** Options for spawning the thread. The same options (including the `initData`) are used whenever the thread is restarted */
+  options?: ThreadOptions<C>;
+  /** Items shared with the thread whenever it is spawned (see {@link Thread.share}), such as synchronization primitives */
+  share?: any[];
+}
+
+/**
+ * Delays between restarts. The first restart waits `initial` milliseconds, and the delay is multiplied by `factor` for
+ * every other restart in the current period (see {@link SupervisorOptions.period}), up to `max`
+ */
+export interface BackoffOptions {
+  /** Delay (in milliseconds) before the first restart. Defaults to 100 */
+  initial?: number;
+  /** How much the delay grows with each restart. Defaults to 2 */
+  factor?: number;
+  /** Longest delay (in milliseconds). Defaults to 30000 */
+  max?: number;
+}
+
+/**
+ * Options for a {@link Supervisor}
+ */
+export interface SupervisorOptions {
+  /** How threads are restarted. Defaults to "one-for-one" */
+  strategy?: RestartStrategy;
+  /** Delays between restarts */
+  backoff?: BackoffOptions;
+  /**
+   * Maximum number of restarts within a period. If threads need more restarts than that, then the supervisor kills
+   * its threads and stops (see {@link SupervisorEventMap.failed}). Defaults to 3
+   */
+  maxRestarts?: number;
+  /** Length (in milliseconds) of the period that restarts are counted in. Defaults to 5000 */
+  period?: number;
+}
+
+/**
+ * Events dispatched by a {@link Supervisor}
+ */
+export interface SupervisorEventMap {
+  /** A thread was restarted. The event's thread id is the new thread's id, and the detail is the thread's name */
+  restart: ThreadEvent<string>;
+  /** Threads needed too many restarts, so the supervisor stopped. The detail is a {@link RestartLimitError} */
+  failed: ThreadEvent<RestartLimitError>;
+}
+
+/**
+ * Runs threads and restarts them whenever they close (e.g. when they are killed or close themselves).
+ * Restarted threads are spawned with the same options (including the `initData`), and are given their shared items again.
+ *
+ * Threads are only left closed when the supervisor is closed or killed. Threads which close on their own
+ * (e.g. with `closeWhenIdle`) are restarted, so supervised threads usually shouldn't have an idle timeout.
+ */
+export class Supervisor extends ThreadEventTarget<SupervisorEventMap> {
+  private specs: ChildSpec<any>[];
+  private strategy: RestartStrategy;
+  private backoff: Required<BackoffOptions>;
+  private maxRestarts: number;
+  private period: number;
+  private threads: Map<string, Thread<any>> = new Map<string, Thread<any>>();
+  private restarts: number[] = [];
+  private timers: Set<any> = new Set<any>();
+  private closed: boolean = false;
+  // changes whenever every thread is restarted, so that older restarts stop
+  private epoch: number = 0;
+
+  private constructor(specs: ChildSpec<any>[], options?: SupervisorOptions) {
+    super();
+    this.specs = specs;
+    this.strategy = options?.strategy || "one-for-one";
+    this.backoff = {
+      initial: 100,
+      factor: 2,
+      max: 30_000,
+      ...options?.backoff,
+    };
+    this.maxRestarts = options?.maxRestarts ?? 3;
+    this.period = options?.period ?? 5000;
+  }
+
+  /**
+   * Spawns the supervised threads (in order) and starts supervising them
+   * @param specs The threads to run
+   * @param options Options for restarting threads
+   * @return A promise for when every thread is initialized. If a thread fails to spawn, then the threads which did spawn are killed and the promise rejects
+   */
+  public static async start(
+    specs: ChildSpec<any>[],
+    options?: SupervisorOptions,
+  ): Promise<Supervisor> {
+    const supervisor = new Supervisor(specs, options);
+    try {
+      for (const spec of specs) {
+        supervisor.threads.set(spec.name, await supervisor.spawnThread(spec));
+      }
+    } catch (e) {
+      supervisor.kill();
+      throw e;
+    }
+    return supervisor;
+  }
+
+  /**
+   * Gets the current thread with a name. Returns undefined while the thread is being restarted, or once the supervisor stopped
+   * @param name Name of the thread (see {@link ChildSpec.name})
+   */
+  public thread<C extends ThreadContract = ThreadContract>(
+    name: string,
+  ): Thread<C> | undefined {
+    return this.threads.get(name);
+  }
+
+  /**
+   * Stops supervising and gracefully closes every thread (see {@link Thread.close})
+   * @param options Options for closing each thread
+   * @return Resolves once every thread has exited, with the work that was abandoned by each thread
+   */
+  public async close(options?: CloseOptions): Promise<CloseResult> {
+    const results = await Promise.all(
+      this.stop().map((thread) => thread.close(options)),
+    );
+    return { abandoned: results.flatMap((r) => r.abandoned) };
+  }
+
+  /**
+   * Stops supervising and kills every thread (see {@link Thread.kill})
+   */
+  public kill() {
+    for (const thread of this.stop()) {
+      thread.kill();
+    }
+  }
+
+  private stop(): Thread<any>[] {
+    this.closed = true;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    const threads = [...this.threads.values()];
+    this.threads.clear();
+    return threads;
+  }
+
+  private async spawnThread(spec: ChildSpec<any>): Promise<Thread<any>> {
+    const thread = await Thread.spawn(spec.script, spec.options);
+    thread.addEventListener("close", () => this.threadClosed(spec, thread));
+    try {
+      for (const item of spec.share || []) {
+        await thread.share(item);
+      }
+    } catch (e) {
+      thread.kill();
+      throw e;
+    }
+    return thread;
+  }
+
+  private threadClosed(spec: ChildSpec<any>, thread: Thread<any>) {
+    // threads closed by the supervisor (or replaced already) aren't restarted
+    if (this.closed || this.threads.get(spec.name) !== thread) {
+      return;
+    }
+    log(
+      "warn",
+      "spawn",
+      () => `Supervised thread '${spec.name}' (${thread.id()}) closed`,
+    );
+    let specs = [spec];
+    if (this.strategy === "one-for-all") {
+      specs = this.specs;
+      ++this.epoch;
+      for (const other of this.threads.values()) {
+        if (other !== thread) {
+          other.close();
+        }
+      }
+      this.threads.clear();
+    } else {
+      this.threads.delete(spec.name);
+    }
+    this.scheduleRestart(specs, thread.id());
+  }
+
+  private scheduleRestart(specs: ChildSpec<any>[], threadId: string) {
+    const now = Date.now();
+    this.restarts = this.restarts.filter((t) => now - t < this.period);
+    this.restarts.push(now);
+    if (this.restarts.length > this.maxRestarts) {
+      const err = new RestartLimitError(
+        specs[0].name,
+        this.maxRestarts,
+        this.period,
+      );
+      log("error", "spawn", err.message);
+      this.kill();
+      this.emit("failed", threadId, err);
+      return;
+    }
+
+    const delay = Math.min(
+      this.backoff.max,
+      this.backoff.initial * this.backoff.factor ** (this.restarts.length - 1),
+    );
+    log(
+      "info",
+      "spawn",
+      () =>
+        `Restarting ${specs.map((s) => `'${s.name}'`).join(", ")} in ${delay}ms`,
+    );
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.restart(specs, threadId, this.epoch);
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private async restart(
+    specs: ChildSpec<any>[],
+    threadId: string,
+    epoch: number,
+  ) {
+    for (let i = 0; i < specs.length; ++i) {
+      let thread: Thread<any>;
+      try {
+        thread = await this.spawnThread(specs[i]);
+      } catch (e) {
+        log(
+          "error",
+          "spawn",
+          () => `Failed to restart thread '${specs[i].name}'`,
+          e,
+        );
+        if (!this.closed && epoch === this.epoch) {
+          // counted as another restart so that the backoff and restart limit apply
+          this.scheduleRestart(specs.slice(i), threadId);
+        }
+        return;
+      }
+      if (this.closed || epoch !== this.epoch) {
+        thread.kill();
+        return;
+      }
+      this.threads.set(specs[i].name, thread);
+      this.emit("restart", thread.id(), specs[i].name);
+    }
+  }
+}
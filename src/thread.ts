@@ -12,33 +12,104 @@ import { Address } from "./memory.ts";
 import { WaitGroup } from "./waitGroup.ts";
 import { Barrier } from "./barrier.ts";
 import { Semaphore } from "./semaphore.ts";
+import { WorkStream } from "./workStream.ts";
+import { emitLog, log, setLogForwarder, setLogThreadId } from "./logger.ts";
+import { ThreadEventTarget, type ThreadEventMap } from "./events.ts";
+import {
+  Histogram,
+  StatsPublisher,
+  transferSize,
+  type ThreadStats,
+} from "./stats.ts";
+import {
+  createSpan,
+  endSpan,
+  finishSpan,
+  isTracing,
+  recordSpan,
+  setTraceThreadId,
+  startSpan,
+  traceContext,
+  traceTime,
+  type Span,
+  type TraceContext,
+} from "./tracing.ts";
+import {
+  MessageBatcher,
+  batchWindow,
+  canBatch,
+  unbatch,
+  type BatchOptions,
+} from "./batch.ts";
+import {
+  createSharedWorker,
+  getRuntime,
+  scriptBaseUrl,
+  type RuntimeWorker,
+} from "./runtime.ts";
+import { makeProxy, type ProxyOptions, type RemoteObject } from "./proxy.ts";
+import {
+  checkContract,
+  currentContract,
+  type ContractEvent,
+  type ContractInit,
+  type ContractRequest,
+  type ContractResponse,
+  type ThreadContract,
+} from "./contract.ts";
 import {
   BadDeHydrationError,
   BadMessageError,
   BadResponseError,
   NotInWorkerThread,
   ThreadClosedError,
+  ThreadPoolClosedError,
+  ProxyReleasedError,
+  NoRequestHandlerError,
+  UnknownRuntimeUrlError,
+  UnsupportedRuntimeError,
   ThreadSpawnFailedError,
+  RestartLimitError,
+  WorkTimeoutError,
+  NotExposedError,
+  ValidationError,
+  InvalidAddressError,
+  NoWaitAsyncError,
+  OutOfBoundsError,
+  MemoryNotAtomicError,
+  InvalidMemoryLayoutError,
 } from "./errors.ts";
 
 let curThreadId = "main";
 let incThreadId = 0;
 
-let doLogs = false;
+// threads spawned by the current thread which haven't exited yet, along with a promise for when they exit
+const childThreadExits: Map<Thread<any>, Promise<void>> = new Map<
+  Thread<any>,
+  Promise<void>
+>();
+// thread pools created by the current thread, which are closed along with it
+const childPools: Set<{ close: () => any }> = new Set<{ close: () => any }>();
 
 /**
- * Sets whether the built-in debug logs should be turned on or not. Must be turned on per-thread (including the main thread).
- *
- * Debug logging includes {@link Thread} activities (spawn, close, send, receive, etc.). In the future, it may include
- * other activities.
- *
- * Primary use is for debugging complex thread interactions. Each debug log will be prefixed with the {@link Thread} id.
- * Thread ids show the hierarchy that they were spawned with (e.g. `main->4->1->10`) and which child thread it was in each hierarchy.
- *
- * @param logging Set to `true` to turn on logs, `false` to turn off (off by default)
+ * Tracks a thread pool so that it gets closed when the current thread closes.
+ * Used by {@link ThreadPool}, you will not need to call this directly
+ * @param pool Pool to track
+ * @return Function to stop tracking the pool (call when the pool closes)
  */
-export function setLogging(logging: boolean) {
-  doLogs = logging;
+export function trackChildPool(pool: { close: () => any }): () => void {
+  childPools.add(pool);
+  return () => childPools.delete(pool);
+}
+
+// URL of this library's script, which threads made from functions load (see Thread.fromFunction)
+// It must be read while the script is first evaluated, since `document.currentScript` is only set then
+let runtimeUrl: string | undefined = undefined;
+try {
+  runtimeUrl = (globalThis as any).__threadsRuntimeUrl || import.meta.url;
+} catch {
+  // there's no way to find our URL in a worker which wasn't made from a function
+  runtimeUrl = undefined;
 }
 
 /**
@@ -59,6 +130,11 @@ export interface DehydrationClass {
    * The key by which the dehydrated object will be identified when hydrating. MUST BE UNIQUE
    */
   key: string;
+  /**
+   * Version of the dehydrated form. Increase it whenever the dehydrated form changes. Threads must register the same
+   * version to exchange values, otherwise hydration fails with a {@link BadDeHydrationError}
+   */
+  version?: number;
   /**
    * The class type (e.g. for the class "Mutex" this would be `Mutex`)
    */
@@ -77,6 +153,34 @@ export type TransferableFunction = (
  */
 export type TransferableFetchers = Array<Transferable | TransferableFunction>;
 
+/**
+ * Options for collecting transferables automatically (see {@link TransferOptions.autoTransfer})
+ */
+export interface AutoTransferOptions {
+  /**
+   * Types of objects to transfer (e.g. `[ArrayBuffer]`). Defaults to every transferable type (see {@link isTransferable})
+   */
+  allow?: Function[];
+  /**
+   * Objects (or types of objects) to never transfer, such as buffers the sending thread keeps using.
+   * Typed arrays can be listed instead of their buffers
+   */
+  deny?: any[];
+}
+
+/**
+ * postMessage options, along with whether to collect transferables from the message automatically
+ */
+export interface TransferOptions extends StructuredSerializeOptions {
+  /**
+   * Walks the message and transfers every transferable object found in it (including the buffers behind typed
+   * arrays), in addition to anything listed in `transfer`. Transferred objects can no longer be used by the sending
+   * thread. Shared memory (e.g. SharedArrayBuffer) is never transferred.
+   * Pass an object to limit what gets transferred
+   */
+  autoTransfer?: boolean | AutoTransferOptions;
+}
+
 /**
  * Definition of a function-based dehydration registration where the dehydration information is cleaned from functions.
  * Three functions need to be defined: `isa`, `hydrate`, `dehydrate`. All of these must be synchronous.
@@ -91,6 +195,11 @@ export interface DehydrationFunctions {
    * The key by which the dehydrated object will be identified when hydrating. MUST BE UNIQUE
    */
   key: string;
+  /**
+   * Version of the dehydrated form. Increase it whenever the dehydrated form changes. Threads must register the same
+   * version to exchange values, otherwise hydration fails with a {@link BadDeHydrationError}
+   */
+  version?: number;
   /**
    * Function to determine if this dehydration mechanism applies to a value. Return true if it does, false otherwise
    * @param _object
@@ -112,48 +221,439 @@ export interface DehydrationFunctions {
   hydrate: (value: any, type?: string) => any;
 }
 
-const dehydrationKeys: Set<string> = new Set<string>([
+// message ports created while dehydrating which need to be added to the message's transfer list
+let dehydratedTransfers: Transferable[] = [];
+
+function takeTransfers(): Transferable[] {
+  const transfers = dehydratedTransfers;
+  dehydratedTransfers = [];
+  return transfers;
+}
+
+/**
+ * Prepares a message to wait in a batch. The message is dehydrated and copied right away (like postMessage does) so
+ * that changes made after sending it aren't sent, and so that messages which can't be sent throw when they're sent.
+ * Messages which need to transfer ports (e.g. for proxied functions) can't be copied, so they're returned with their
+ * ports to be sent on their own instead
+ * @param message Message to batch
+ */
+function prepareBatched(message: any): {
+  message: any;
+  ports: Transferable[];
+} {
+  const dehydratedMessage = dehydrate(message);
+  const ports = takeTransfers();
+  if (ports.length) {
+    return { message: dehydratedMessage, ports };
+  }
+  return { message: structuredClone(dehydratedMessage), ports };
+}
+
+// adds transfers to the (optional) transfer list or options given to a postMessage call
+function withTransfers(args: any[], transfers: Transferable[]): any[] {
+  if (!transfers.length) {
+    return args;
+  }
+  const [options, ...rest] = args;
+  // an object can only be listed once, so skip anything the caller already listed
+  const listed = new Set<any>(
+    Array.isArray(options) ? options : options?.transfer || [],
+  );
+  const extra = transfers.filter((t) => !listed.has(t));
+  if (Array.isArray(options)) {
+    return [[...options, ...extra], ...rest];
+  }
+  return [{ ...options, transfer: [...listed, ...extra] }, ...rest];
+}
+
+/**
+ * Gets the auto transfer option from the options passed to a postMessage call
+ */
+function autoTransferOption(
+  options: any,
+): boolean | AutoTransferOptions | undefined {
+  if (options && typeof options === "object" && !Array.isArray(options)) {
+    return options.autoTransfer;
+  }
+  return undefined;
+}
+
+const proxyReleasers: WeakMap<Function, () => void> = new WeakMap<
+  Function,
+  () => void
+>();
+const proxyFinalizer =
+  typeof FinalizationRegistry !== "undefined"
+    ? new FinalizationRegistry<() => void>((release) => release())
+    : null;
+
+/**
+ * Wraps a function so that it can be sent to another thread (see {@link proxyFunction}).
+ *
+ * The function itself stays in the current thread. The receiving thread gets an async function which calls the
+ * original function over a dedicated MessagePort.
+ */
+export class ProxiedFunction<
+  F extends (...args: any[]) => any = (...args: any[]) => any,
+> {
+  public static readonly HYDRATION_KEY = "__PROXIED_FUNCTION";
+  public readonly fn: F;
+
+  /**
+   * Wraps a function. Prefer {@link proxyFunction}
+   * @param fn Function to wrap
+   */
+  constructor(fn: F) {
+    this.fn = fn;
+  }
+
+  /**
+   * Opens a channel for calling the function and returns the port for the receiving thread.
+   * The port is added to the transfer list of the message being sent.
+   * @param proxied Function to dehydrate
+   */
+  public static dehydrate(proxied: ProxiedFunction): { port: MessagePort } {
+    const channel = new MessageChannel();
+    const port = channel.port1;
+    port.onmessage = async (e: MessageEvent) => {
+      if (e.data?.__release) {
+        port.close();
+        return;
+      }
+      const id = e.data.id;
+      try {
+        const res = await proxied.fn(...hydrate(e.data.args));
+        const message = { id, res: dehydrate(res) };
+        port.postMessage(message, takeTransfers());
+      } catch (err) {
+        takeTransfers();
+        port.postMessage({ id, rej: dehydrate(err) });
+      }
+    };
+    dehydratedTransfers.push(channel.port2);
+    return { port: channel.port2 };
+  }
+
+  /**
+   * Creates an async function which calls the original function through the given port
+   * @param value Dehydrated proxied function
+   */
+  public static hydrate(value: {
+    port: MessagePort;
+  }): (...args: any[]) => Promise<any> {
+    const port = value.port;
+    const pending: Map<number, { res: (_: any) => any; rej: (_: any) => any }> =
+      new Map();
+    let nextId = 0;
+    let released = false;
+
+    port.onmessage = (e: MessageEvent) => {
+      const call = pending.get(e.data.id);
+      if (!call) {
+        return;
+      }
+      pending.delete(e.data.id);
+      const data = hydrateMessage(e.data);
+      if ("rej" in data) {
+        call.rej(data.rej);
+      } else {
+        call.res(data.res);
+      }
+    };
+
+    // must not reference the stub, otherwise the finalizer would keep it alive
+    const release = () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      port.postMessage({ __release: true });
+      port.close();
+      for (const call of pending.values()) {
+        call.rej(new ProxyReleasedError());
+      }
+      pending.clear();
+    };
+
+    const stub = (...args: any[]) => {
+      if (released) {
+        return Promise.reject(new ProxyReleasedError());
+      }
+      return new Promise((res, rej) => {
+        const id = ++nextId;
+        pending.set(id, { res, rej });
+        try {
+          const message = { id, args: dehydrate(args) };
+          port.postMessage(message, takeTransfers());
+        } catch (err) {
+          takeTransfers();
+          pending.delete(id);
+          rej(err);
+        }
+      });
+    };
+    proxyReleasers.set(stub, release);
+    proxyFinalizer?.register(stub, release, stub);
+    return stub;
+  }
+}
+
+/**
+ * Marks a function so that it can be sent to another thread as part of a message (e.g. work, init data, events).
+ * The receiving thread gets an async function which calls the original function in this thread and resolves with
+ * its result. Arguments and results are (de)hydrated like any other message.
+ *
+ * The channel stays open until the receiving thread calls {@link releaseProxy} on the function, or until the function
+ * is garbage collected in the receiving thread.
+ *
+ * @param fn Function to send
+ */
+export function proxyFunction<F extends (...args: any[]) => any>(
+  fn: F,
+): ProxiedFunction<F> {
+  return new ProxiedFunction(fn);
+}
+
+/**
+ * Releases a function received from another thread (see {@link proxyFunction}), closing its channel.
+ * Pending and future calls will be rejected with a {@link ProxyReleasedError}.
+ * Does nothing if the function is not a proxied function.
+ * @param fn Proxied function to release
+ */
+export function releaseProxy(fn: Function) {
+  const release = proxyReleasers.get(fn);
+  if (release) {
+    proxyReleasers.delete(fn);
+    proxyFinalizer?.unregister(fn);
+    release();
+  }
+}
+
+/**
+ * A class of errors which can be sent between threads (see {@link registerErrorClass})
+ */
+export type ErrorClass = new (...args: any[]) => Error;
+
+// error classes by the name they're sent as, and the reverse
+const errorClasses: Map<string, ErrorClass> = new Map<string, ErrorClass>();
+const errorClassNames: Map<Function, string> = new Map<Function, string>();
+// whether the sender's stack is captured when sending work (see setStackStitching)
+let stitchStacks: boolean = false;
+
+/**
+ * Registers an error class so that errors of that class keep their class when sent to another thread (i.e. they can be
+ * checked with `instanceof`). Must be registered with the same name in every thread which sends or receives the errors.
+ *
+ * The error's constructor is not called when it is recreated. Instead, the message, stack, `cause`, `errors` (for
+ * `AggregateError`s) and any custom fields are copied over. Errors of unregistered classes are sent as the nearest
+ * registered parent class (usually `Error`).
+ *
+ * Built-in error classes and the errors thrown by this library are registered automatically.
+ * Registering an error class also turns on stack stitching (see {@link setStackStitching}).
+ *
+ * @param type Error class to register
+ * @param name Name to send the class as. Defaults to the class name (provide a name if your code gets minified)
+ */
+export function registerErrorClass(type: ErrorClass, name: string = type.name) {
+  addErrorClass(type, name);
+  stitchStacks = true;
+}
+
+function addErrorClass(type: ErrorClass, name: string = type.name) {
+  if (!name) {
+    throw new BadDeHydrationError("Error classes must have a name!");
+  }
+  const existing = errorClasses.get(name);
+  if (existing && existing !== type) {
+    throw new BadDeHydrationError(
+      `Error class with name '${name}' already registered!`,
+    );
+  }
+  errorClasses.set(name, type);
+  errorClassNames.set(type, name);
+}
+
+for (const type of [
+  Error,
+  TypeError,
+  RangeError,
+  SyntaxError,
+  ReferenceError,
+  EvalError,
+  URIError,
+]) {
+  addErrorClass(type);
+}
+if (typeof AggregateError !== "undefined") {
+  addErrorClass(AggregateError);
+}
+// names are given explicitly since minification renames classes
+addErrorClass(ThreadClosedError, "ThreadClosedError");
+addErrorClass(ThreadPoolClosedError, "ThreadPoolClosedError");
+addErrorClass(WorkTimeoutError, "WorkTimeoutError");
+addErrorClass(NotExposedError, "NotExposedError");
+addErrorClass(ValidationError, "ValidationError");
+addErrorClass(ProxyReleasedError, "ProxyReleasedError");
+addErrorClass(NoRequestHandlerError, "NoRequestHandlerError");
+addErrorClass(UnknownRuntimeUrlError, "UnknownRuntimeUrlError");
+addErrorClass(UnsupportedRuntimeError, "UnsupportedRuntimeError");
+addErrorClass(BadDeHydrationError, "BadDeHydrationError");
+addErrorClass(BadResponseError, "BadResponseError");
+addErrorClass(BadMessageError, "BadMessageError");
+addErrorClass(ThreadSpawnFailedError, "ThreadSpawnFailedError");
+addErrorClass(RestartLimitError, "RestartLimitError");
+addErrorClass(InvalidAddressError, "InvalidAddressError");
+addErrorClass(NoWaitAsyncError, "NoWaitAsyncError");
+addErrorClass(OutOfBoundsError, "OutOfBoundsError");
+addErrorClass(MemoryNotAtomicError, "MemoryNotAtomicError");
+addErrorClass(InvalidMemoryLayoutError, "InvalidMemoryLayoutError");
+addErrorClass(NotInWorkerThread, "NotInWorkerThread");
+
+function errorClassName(err: Error): string {
+  // use the closest registered class
+  for (
+    let proto = Object.getPrototypeOf(err);
+    proto;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    const name = errorClassNames.get(proto.constructor);
+    if (name) {
+      return name;
+    }
+  }
+  return "Error";
+}
+
+interface DehydratedError {
+  type: string;
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  fields: { [key: string]: unknown };
+}
+
+function dehydrateError(err: Error): DehydratedError {
+  const res: DehydratedError = {
+    type: errorClassName(err),
+    name: err.name,
+    message: err.message,
+    stack: err.stack,
+    fields: {},
+  };
+  if ("cause" in err) {
+    res.cause = dehydrate(err.cause);
+  }
+  if (typeof AggregateError !== "undefined" && err instanceof AggregateError) {
+    res.errors = dehydrate([...err.errors]);
+  }
+  for (const k of Object.keys(err)) {
+    if (k !== "name" && k !== "errors") {
+      res.fields[k] = dehydrate((err as any)[k]);
+    }
+  }
+  return res;
+}
+
+function hydrateError(value: DehydratedError): Error {
+  const type = errorClasses.get(value.type) || Error;
+  let e: Error;
+  // construct the base error directly since the class's constructor may expect different arguments
+  if (
+    typeof AggregateError !== "undefined" &&
+    (type === AggregateError || type.prototype instanceof AggregateError)
+  ) {
+    e = Reflect.construct(AggregateError, [[], value.message], type);
+  } else {
+    e = Reflect.construct(Error, [value.message], type);
+  }
+  // the error is remembered before hydrating what it references, so that cycles (e.g. through `cause`) work
+  rememberHydrated(value, e);
+  if (e.name !== value.name) {
+    e.name = value.name;
+  }
+  if (value.stack !== undefined) {
+    e.stack = value.stack;
+  }
+  if ("cause" in value) {
+    Object.defineProperty(e, "cause", {
+      value: hydrate(value.cause),
+      writable: true,
+      configurable: true,
+    });
+  }
+  if (value.errors) {
+    Object.defineProperty(e, "errors", {
+      value: hydrate(value.errors),
+      writable: true,
+      configurable: true,
+    });
+  }
+  for (const k of Object.keys(value.fields || {})) {
+    (e as any)[k] = hydrate(value.fields[k]);
+  }
+  return e;
+}
+
+/**
+ * Turns stack stitching on or off. While it's on, errors received in response to work have the stack of the code which
+ * sent the work appended to their stack, so traces show both threads. Capturing that stack takes time for every piece
+ * of work, so it's off until it's turned on or an error class is registered with {@link registerErrorClass}
+ * @param enabled Whether to stitch stacks
+ */
+export function setStackStitching(enabled: boolean) {
+  stitchStacks = enabled;
+}
+
+// captures the sender's stack for stitching onto errors received in response
+function captureCallSite(): Error | undefined {
+  return stitchStacks ? new Error() : undefined;
+}
+
+/**
+ * Appends the stack of the code which sent a message to the stack of an error received in response, so that traces
+ * show both threads
+ * @param err Error received from the other thread
+ * @param callSite Error created where the message was sent
+ * @param threadId Id of the thread the error came from
+ */
+function stitchStack(err: any, callSite: Error | undefined, threadId: string) {
+  if (!(err instanceof Error) || !callSite?.stack || !err.stack) {
+    return err;
+  }
+  const callerFrames = callSite.stack.split("\n").slice(1).join("\n");
+  err.stack = `${err.stack}\n    --- sent to thread ${threadId} from ${curThreadId} ---\n${callerFrames}`;
+  return err;
+}
+
+// keys of the dehydrations built into the library, which can't be replaced or unregistered
+const builtInDehydrationKeys: Set<string> = new Set<string>([
   Address.HYDRATION_KEY,
   Mutex.HYDRATION_KEY,
   ConditionVariable.HYDRATION_KEY,
   WaitGroup.HYDRATION_KEY,
   Barrier.HYDRATION_KEY,
   Semaphore.HYDRATION_KEY,
+  ProxiedFunction.HYDRATION_KEY,
   "__ERROR",
 ]);
-const dehydrationList: Array<DehydrationClass | DehydrationFunctions> = [
-  {
-    key: "__ERROR",
-    isa: (object) => {
-      return object instanceof Error;
-    },
-    dehydrate: (object: Error) => {
-      return {
-        name: object.name,
-        stack: object.stack,
-        message: object.message,
-        cause: dehydrate(object.cause),
-      };
-    },
-    hydrate: (value: {
-      name: string;
-      stack: string;
-      message: string;
-      cause: unknown | undefined;
-    }) => {
-      console.error(value);
-      let e: Error;
-      if (value.message === "Thread Closed") {
-        e = new ThreadClosedError({ cause: value.cause });
-      } else {
-        e = new Error(value.message, { cause: value.cause });
-      }
-      e.stack = value.stack;
-      console.error(e);
-      return e;
-    },
+const errorDehydration: DehydrationFunctions = {
+  key: "__ERROR",
+  isa: (object) => {
+    return object instanceof Error;
   },
+  dehydrate: dehydrateError,
+  hydrate: hydrateError,
+};
+// registered dehydrations in registration order (used for dehydration priority), and indexed by key (for hydration)
+const dehydrationList: Array<DehydrationClass | DehydrationFunctions> = [
+  errorDehydration,
 ];
+const dehydrationsByKey: Map<string, DehydrationClass | DehydrationFunctions> =
+  new Map<string, DehydrationClass | DehydrationFunctions>([
+    [errorDehydration.key, errorDehydration],
+  ]);
 
 /**
  * Registers a new (De)Hydration ruleset. For the rulesets, see {@link DehydrationFunctions} and {@link DehydrationClass}.
@@ -173,7 +673,7 @@ export function registerDeHydration(
     !("key" in ruleset) ||
     !(
       "type" in ruleset ||
-      ("isa" in ruleset && "dehydrate" in ruleset && "hydrate in ruleset")
+      ("isa" in ruleset && "dehydrate" in ruleset && "hydrate" in ruleset)
     )
   ) {
     throw new BadDeHydrationError(
@@ -194,171 +694,536 @@ export function registerDeHydration(
     );
   }
 
-  if (dehydrationKeys.has(ruleset.key)) {
+  if (
+    ruleset.version !== undefined &&
+    (typeof ruleset.version !== "number" || !isFinite(ruleset.version))
+  ) {
     throw new BadDeHydrationError(
-      `DeHydration with key '${ruleset}' already registered!`,
+      `Version for key '${ruleset.key}' must be a finite number!`,
     );
   }
 
-  dehydrationKeys.add(ruleset.key);
+  if (
+    builtInDehydrationKeys.has(ruleset.key) ||
+    dehydrationsByKey.has(ruleset.key)
+  ) {
+    throw new BadDeHydrationError(
+      `DeHydration with key '${ruleset.key}' already registered!`,
+    );
+  }
+
+  dehydrationsByKey.set(ruleset.key, ruleset);
   dehydrationList.push(ruleset);
 }
 
+/**
+ * Unregisters a (De)Hydration ruleset registered with {@link registerDeHydration}.
+ * Values of that type will no longer be dehydrated, and receiving them will fail with a {@link BadDeHydrationError}.
+ * Throws if the key belongs to one of the library's built-in rulesets
+ *
+ * @param key Key of the ruleset
+ * @return Whether a ruleset was registered with the key
+ */
+export function unregisterDeHydration(key: string): boolean {
+  if (builtInDehydrationKeys.has(key)) {
+    throw new BadDeHydrationError(
+      `Cannot unregister built-in DeHydration '${key}'!`,
+    );
+  }
+  const ruleset = dehydrationsByKey.get(key);
+  if (!ruleset) {
+    return false;
+  }
+  dehydrationsByKey.delete(key);
+  dehydrationList.splice(dehydrationList.indexOf(ruleset), 1);
+  return true;
+}
+
 /**
  * Checks if an object is transferable or not
  * @param o
  */
 export function isTransferable(o: any): o is Transferable {
+  return (
+    typeof o === "object" &&
+    o !== null &&
+    transferableTypes.some((type) => o instanceof type)
+  );
+}
+
+// transferable types which exist in the current runtime
+const transferableTypes: Function[] = [
+  "ArrayBuffer",
+  "MessagePort",
+  "ImageBitmap",
+  "OffscreenCanvas",
+  "ReadableStream",
+  "WritableStream",
+  "TransformStream",
+  "VideoFrame",
+  "AudioData",
+]
+  .map((name) => (globalThis as any)[name])
+  .filter((type) => typeof type === "function");
+
+// what to collect for auto transfer in the message currently being dehydrated (null if auto transfer is off)
+let autoTransfers: AutoTransferOptions | null = null;
+
+function collectTransfer(item: any, source: any = item) {
+  if (!autoTransfers || !isTransferable(item) || (item as any).detached) {
+    return;
+  }
+  const matches = (type: any) =>
+    type === item ||
+    type === source ||
+    (typeof type === "function" && item instanceof type);
+  if (autoTransfers.deny && autoTransfers.deny.some(matches)) {
+    return;
+  }
+  if (autoTransfers.allow && !autoTransfers.allow.some(matches)) {
+    return;
+  }
+  if (!dehydratedTransfers.includes(item)) {
+    dehydratedTransfers.push(item);
+  }
+}
+
+// objects which are already dehydrated/hydrated in the message currently being (de)hydrated
+// Tracking them keeps shared references and cycles intact, and the original message untouched
+let dehydrated: Map<any, any> | null = null;
+let hydrated: Map<any, any> | null = null;
+
+function dehydrate(
+  obj: any,
+  autoTransfer?: boolean | AutoTransferOptions,
+): any {
+  if (dehydrated) {
+    return dehydrateValue(obj);
+  }
+  dehydrated = new Map<any, any>();
+  autoTransfers = autoTransfer
+    ? autoTransfer === true
+      ? {}
+      : autoTransfer
+    : null;
+  let done = false;
   try {
-    return (
-      o instanceof ArrayBuffer ||
-      o instanceof MessagePort ||
-      o instanceof ImageBitmap ||
-      o instanceof OffscreenCanvas
-    );
-  } catch {
-    return false;
+    const res = dehydrateValue(obj);
+    done = true;
+    return res;
+  } finally {
+    dehydrated = null;
+    autoTransfers = null;
+    // ports made for a message which failed to dehydrate must not be sent with the next message
+    if (!done) {
+      dehydratedTransfers = [];
+    }
   }
 }
 
-function dehydrate(obj: any): any {
-  if (obj && Array.isArray(obj)) {
-    return obj.map(dehydrate);
-  } else if (isTransferable(obj)) {
+/**
+ * Checks if an object is a container which (de)hydration should look inside of. Other objects (e.g. dates, typed
+ * arrays and blobs) are sent as-is
+ */
+function isContainer(obj: any): boolean {
+  return (
+    Array.isArray(obj) ||
+    obj instanceof Map ||
+    obj instanceof Set ||
+    Object.prototype.toString.call(obj) === "[object Object]"
+  );
+}
+
+function dehydrateValue(obj: any): any {
+  if (typeof obj !== "object" || obj === null) {
     return obj;
-  } else if (typeof obj === "object" && obj) {
-    const v: any = {
-      __dehydrated: true,
-      __value: null,
-    };
-    if (obj instanceof Address) {
-      v.__value = Address.dehydrate(obj);
-      v.__type = Address.HYDRATION_KEY;
-    } else if (obj instanceof Mutex) {
-      v.__value = Mutex.dehydrate(obj);
-      v.__type = Mutex.HYDRATION_KEY;
-    } else if (obj instanceof ConditionVariable) {
-      v.__value = ConditionVariable.dehydrate(obj);
-      v.__type = ConditionVariable.HYDRATION_KEY;
-    } else if (obj instanceof WaitGroup) {
-      v.__value = WaitGroup.dehydrate(obj);
-      v.__type = WaitGroup.HYDRATION_KEY;
-    } else if (obj instanceof Barrier) {
-      v.__value = Barrier.dehydrate(obj);
-      v.__type = Barrier.HYDRATION_KEY;
-    } else if (obj instanceof Semaphore) {
-      v.__value = Semaphore.dehydrate(obj);
-      v.__type = Semaphore.HYDRATION_KEY;
-    } else {
-      for (let i = dehydrationList.length; i > 0; i--) {
-        const de = dehydrationList[i - 1];
-        if ("type" in de) {
-          if (obj instanceof de.type && de.type.dehydrate && de.type.hydrate) {
-            v.__value = de.type.dehydrate(obj);
-            v.__type = de.key;
-            return v;
-          }
-        } else if ("isa" in de) {
-          if (de.isa(obj)) {
-            v.__value = de.dehydrate(obj);
-            v.__type = de.key;
-            return v;
+  }
+  if (isTransferable(obj)) {
+    collectTransfer(obj);
+    return obj;
+  }
+  if (autoTransfers && ArrayBuffer.isView(obj)) {
+    collectTransfer(obj.buffer, obj);
+  }
+  if (dehydrated!.has(obj)) {
+    return dehydrated!.get(obj);
+  }
+  if (Array.isArray(obj)) {
+    const res: any[] = [];
+    dehydrated!.set(obj, res);
+    for (const item of obj) {
+      res.push(dehydrateValue(item));
+    }
+    return res;
+  } else if (obj instanceof Map) {
+    const res = new Map<any, any>();
+    dehydrated!.set(obj, res);
+    for (const [k, item] of obj) {
+      res.set(dehydrateValue(k), dehydrateValue(item));
+    }
+    return res;
+  } else if (obj instanceof Set) {
+    const res = new Set<any>();
+    dehydrated!.set(obj, res);
+    for (const item of obj) {
+      res.add(dehydrateValue(item));
+    }
+    return res;
+  }
+
+  const v: any = {
+    __dehydrated: true,
+    __value: null,
+  };
+  // remembered first so that references back to the object (e.g. an error's cause) get the same dehydrated value
+  dehydrated!.set(obj, v);
+  if (obj instanceof Address) {
+    v.__value = Address.dehydrate(obj);
+    v.__type = Address.HYDRATION_KEY;
+  } else if (obj instanceof Mutex) {
+    v.__value = Mutex.dehydrate(obj);
+    v.__type = Mutex.HYDRATION_KEY;
+  } else if (obj instanceof ConditionVariable) {
+    v.__value = ConditionVariable.dehydrate(obj);
+    v.__type = ConditionVariable.HYDRATION_KEY;
+  } else if (obj instanceof WaitGroup) {
+    v.__value = WaitGroup.dehydrate(obj);
+    v.__type = WaitGroup.HYDRATION_KEY;
+  } else if (obj instanceof Barrier) {
+    v.__value = Barrier.dehydrate(obj);
+    v.__type = Barrier.HYDRATION_KEY;
+  } else if (obj instanceof Semaphore) {
+    v.__value = Semaphore.dehydrate(obj);
+    v.__type = Semaphore.HYDRATION_KEY;
+  } else if (obj instanceof ProxiedFunction) {
+    v.__value = ProxiedFunction.dehydrate(obj);
+    v.__type = ProxiedFunction.HYDRATION_KEY;
+  } else if (obj instanceof PeerThread) {
+    v.__value = PeerThread.dehydrate(obj);
+    v.__type = PeerThread.HYDRATION_KEY;
+  } else {
+    for (let i = dehydrationList.length; i > 0; i--) {
+      const de = dehydrationList[i - 1];
+      if ("type" in de) {
+        if (obj instanceof de.type && de.type.dehydrate && de.type.hydrate) {
+          v.__type = de.key;
+          if (de.version !== undefined) {
+            v.__version = de.version;
           }
+          v.__value = de.type.dehydrate(obj);
+          return v;
         }
-      }
-      for (const k of Object.keys(obj)) {
-        // don't touch transferable objects since that breaks our transfer array
-        if (isTransferable(obj[k])) {
-          continue;
+      } else if ("isa" in de) {
+        if (de.isa(obj)) {
+          v.__type = de.key;
+          if (de.version !== undefined) {
+            v.__version = de.version;
+          }
+          v.__value = de.dehydrate(obj);
+          return v;
         }
-        obj[k] = dehydrate(obj[k]);
       }
+    }
+    if (!isContainer(obj)) {
+      dehydrated!.set(obj, obj);
       return obj;
     }
-    return v;
-  } else {
-    return obj;
+    // plain objects (and class instances, which arrive as plain objects anyways)
+    const res: any = {};
+    dehydrated!.set(obj, res);
+    for (const k of Object.keys(obj)) {
+      res[k] = dehydrateValue(obj[k]);
+    }
+    return res;
   }
+  return v;
 }
 
 function hydrate(obj: any): any {
-  if (
-    typeof obj === "object" &&
-    obj !== null &&
-    "__dehydrated" in obj &&
-    obj.__dehydrated
-  ) {
+  if (hydrated) {
+    return hydrateValue(obj);
+  }
+  hydrated = new Map<any, any>();
+  try {
+    return hydrateValue(obj);
+  } finally {
+    hydrated = null;
+  }
+}
+
+/**
+ * Hydrates a message received from another thread. If the result in a response can't be hydrated (e.g. it uses a type
+ * which isn't registered in this thread), the response is turned into a rejection so the caller gets the error
+ * @param data Message data to hydrate
+ */
+function hydrateMessage(data: any): any {
+  try {
+    return hydrate(data);
+  } catch (err) {
+    if (data && typeof data === "object" && "res" in data) {
+      const { res: _, ...rest } = data;
+      return { ...hydrate(rest), rej: err };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Remembers what a dehydrated value hydrated to. Hydrate functions which can be part of a cycle call this before
+ * hydrating anything they reference
+ */
+function rememberHydrated(value: any, result: any) {
+  if (hydrated && typeof value === "object" && value !== null) {
+    hydrated.set(value, result);
+  }
+}
+
+function hydrateValue(obj: any): any {
+  if (typeof obj !== "object" || obj === null || isTransferable(obj)) {
+    return obj;
+  }
+  if (hydrated!.has(obj)) {
+    return hydrated!.get(obj);
+  }
+  if ("__dehydrated" in obj && obj.__dehydrated) {
     const type: string | null | undefined = obj?.__type;
     if (!type) {
       return obj;
     }
     const val = obj.__value;
-    switch (type) {
-      case Mutex.HYDRATION_KEY:
-        return Mutex.hydrate(val);
-      case ConditionVariable.HYDRATION_KEY:
-        return ConditionVariable.hydrate(val);
-      case Address.HYDRATION_KEY:
-        return Address.hydrate(val);
-      case WaitGroup.HYDRATION_KEY:
-        return WaitGroup.hydrate(val);
-      case Barrier.HYDRATION_KEY:
-        return Barrier.hydrate(val);
-      case Semaphore.HYDRATION_KEY:
-        return Semaphore.hydrate(val);
-    }
-
-    if (!dehydrationKeys.has(type)) {
-      console.error(
-        `Unknown DeHydration '${type}! Unable to hydrate! Returning dehydrated object`,
-      );
-      return obj;
-    } else {
-      for (const de of dehydrationList) {
-        if ("type" in de) {
-          return de.type.hydrate(obj.__value, type);
-        } else if ("isa" in de) {
-          return de.hydrate(obj.__value, type);
-        }
-      }
+    if (hydrated!.has(val)) {
+      return hydrated!.get(val);
     }
-  } else if (obj && Array.isArray(obj)) {
-    return obj.map(hydrate);
-  } else if (typeof obj === "object" && obj) {
-    for (const k of Object.keys(obj)) {
-      obj[k] = hydrate(obj[k]);
+    const res = hydrateDehydrated(type, obj);
+    hydrated!.set(obj, res);
+    return res;
+  } else if (Array.isArray(obj)) {
+    const res: any[] = [];
+    hydrated!.set(obj, res);
+    for (const item of obj) {
+      res.push(hydrateValue(item));
+    }
+    return res;
+  } else if (obj instanceof Map) {
+    const res = new Map<any, any>();
+    hydrated!.set(obj, res);
+    for (const [k, item] of obj) {
+      res.set(hydrateValue(k), hydrateValue(item));
+    }
+    return res;
+  } else if (obj instanceof Set) {
+    const res = new Set<any>();
+    hydrated!.set(obj, res);
+    for (const item of obj) {
+      res.add(hydrateValue(item));
     }
+    return res;
+  } else if (!isContainer(obj)) {
+    return obj;
+  }
+  const res: any = {};
+  hydrated!.set(obj, res);
+  for (const k of Object.keys(obj)) {
+    res[k] = hydrateValue(obj[k]);
+  }
+  return res;
+}
+
+function hydrateDehydrated(type: string, obj: any): any {
+  const val = obj.__value;
+  switch (type) {
+    case Mutex.HYDRATION_KEY:
+      return Mutex.hydrate(val);
+    case ConditionVariable.HYDRATION_KEY:
+      return ConditionVariable.hydrate(val);
+    case Address.HYDRATION_KEY:
+      return Address.hydrate(val);
+    case WaitGroup.HYDRATION_KEY:
+      return WaitGroup.hydrate(val);
+    case Barrier.HYDRATION_KEY:
+      return Barrier.hydrate(val);
+    case Semaphore.HYDRATION_KEY:
+      return Semaphore.hydrate(val);
+    case ProxiedFunction.HYDRATION_KEY:
+      return ProxiedFunction.hydrate(val);
+    case PeerThread.HYDRATION_KEY:
+      return PeerThread.hydrate(val);
   }
-  return obj;
+
+  const de = dehydrationsByKey.get(type);
+  if (!de) {
+    throw new BadDeHydrationError(
+      `Unknown DeHydration '${type}'! It must be registered in both threads`,
+    );
+  }
+  if (obj.__version !== de.version) {
+    throw new BadDeHydrationError(
+      `DeHydration '${type}' version mismatch! Received version ${obj.__version ?? "(none)"} but version ${de.version ?? "(none)"} is registered`,
+    );
+  }
+  if ("type" in de) {
+    return de.type.hydrate(val, type);
+  }
+  return de.hydrate(val, type);
 }
 
 function setThreadId(threadId: string) {
   curThreadId = threadId;
+  setLogThreadId(threadId);
+  setTraceThreadId(threadId);
 }
 
 function getThreadId(): string {
   return curThreadId;
 }
 
-export interface ThreadWorker {
-  sendWork<R = any>(
-      work: any,
-      options?: StructuredSerializeOptions,
-  ): Promise<R>
+export interface ThreadWorker<C extends ThreadContract = ThreadContract> {
+  sendWork<R = ContractResponse<C>>(
+    work: ContractRequest<C>,
+    options?: SendWorkOptions,
+  ): Promise<R>;
+}
+
+/**
+ * Options for sending work to a thread
+ */
+export interface SendWorkOptions extends TransferOptions {
+  /**
+   * Signal for cancelling the work. Aborting will reject the returned promise with the signal's reason
+   * and will notify the thread so the `onwork` handler can stop early (see {@link WorkContext})
+   */
+  signal?: AbortSignal;
+  /**
+   * Maximum time (in milliseconds) to wait for the work to finish. If it doesn't finish in time, the returned promise
+   * rejects with a {@link WorkTimeoutError} and the thread is told to cancel the work (same as aborting the `signal`).
+   * For a {@link ThreadPool}, this includes the time the work waits in the pool for a thread
+   */
+  timeout?: number;
+  /**
+   * Called whenever the `onwork` handler reports progress for this work (see {@link WorkContext.reportProgress})
+   */
+  onProgress?: (progress: any) => any;
+  /**
+   * Span to nest the work's spans under (see {@link setTracer}). Only used by {@link Thread} and {@link ThreadPool}
+   */
+  trace?: TraceContext;
+  /**
+   * Priority of the work (higher goes first). Only used by a {@link ThreadPool} with priority scheduling turned on
+   * (see {@link ThreadPoolOptions.priority}). Defaults to 0
+   */
+  priority?: number;
+}
+
+/**
+ * Options for gracefully closing a thread (see {@link Thread.close})
+ */
+export interface CloseOptions {
+  /**
+   * How long (in milliseconds) the thread waits for the messages it's processing to finish before it stops waiting
+   * and calls its `onclose` handler. Defaults to 1000
+   */
+  drainTimeout?: number;
+  /**
+   * If true, then pending work is rejected with a {@link ThreadClosedError} right away (and the thread is told to cancel it)
+   * instead of waiting for the thread to finish it
+   */
+  rejectPending?: boolean;
+  /**
+   * How long (in milliseconds) the thread waits for its own child threads to close before it kills them.
+   * Only used by {@link Thread}. Defaults to 2000
+   */
+  childTimeout?: number;
+  /**
+   * How long (in milliseconds) to wait for the thread to exit, on top of its drain and child timeouts, before killing it.
+   * This covers the thread's `onclose` handler, and threads which die without saying they closed.
+   * A {@link SharedThread} stops waiting for its connection to close instead (its pending work is abandoned).
+   * Defaults to 5000 (use `Infinity` to wait forever)
+   */
+  exitTimeout?: number;
+}
+
+/**
+ * Work which never got a response because its thread closed. The work was rejected with a {@link ThreadClosedError}
+ */
+export interface AbandonedWork {
+  /** Id of the thread the work was sent to */
+  threadId: string;
+  /** Id of the work */
+  workId: string;
+  /** The work that was sent */
+  work: any;
+}
+
+/**
+ * Result of gracefully closing a thread (see {@link Thread.close})
+ */
+export interface CloseResult {
+  /** Work which was still pending when the thread closed */
+  abandoned: AbandonedWork[];
+}
+
+/**
+ * Options for streaming work from a thread (see {@link Thread.streamWork})
+ */
+export interface StreamWorkOptions extends SendWorkOptions {
+  /**
+   * Maximum number of results the thread may send before the consumer reads them. Defaults to 16
+   */
+  bufferSize?: number;
+}
+
+/**
+ * Extra information passed to the `onwork` handler alongside the work
+ */
+export interface WorkContext {
+  /** The id of the work being processed */
+  workId: string;
+  /** Signal which is aborted when the sender cancels the work */
+  signal: AbortSignal;
+  /**
+   * Sends a progress update for the work back to the sender (passed to the `onProgress` option of `sendWork`).
+   * Progress reported after the work was cancelled is dropped
+   * @param progress Progress value to send (e.g. percent complete)
+   */
+  reportProgress: (progress: any) => void;
+}
+
+/**
+ * Options for checking whether a thread is still responsive (see {@link ThreadOptions.heartbeat})
+ */
+export interface HeartbeatOptions<C extends ThreadContract = ThreadContract> {
+  /** How often (in milliseconds) to ping the thread. Defaults to 1000 */
+  interval?: number;
+  /**
+   * How long (in milliseconds) the thread can go without responding before it is marked as unresponsive.
+   * Defaults to 5 times the interval
+   */
+  timeout?: number;
+  /** Called when the thread is marked as unresponsive */
+  onUnresponsive?: (thread: Thread<C>) => any;
+  /** Called when an unresponsive thread starts responding again */
+  onResponsive?: (thread: Thread<C>) => any;
 }
 
 /**
  * Options for creating a thread
  */
-export interface ThreadOptions {
+export interface ThreadOptions<C extends ThreadContract = ThreadContract> {
   /** Initial data for the thread (passed to `oninit`) */
-  initData?: any;
+  initData?: ContractInit<C>;
+  /** Contract for validating messages sent to and received from the thread */
+  contract?: C;
   /** Custom onEventHandler for when a custom message is received from the thread */
   onEventHandler?: (event: any) => any;
   /** Custom onEventHandler for when a custom message is received from the thread */
   onTransferHandler?: (transferEvent: any) => any;
   /** Custom onErrorHandler for when an error is received from the thread */
   onErrorHandler?: (err: any) => any;
+  /**
+   * Handler for requests sent by the thread with `requestParent`. The returned value (or thrown error) is sent back
+   * as the response. Return a {@link ResponseWithTransfer} or {@link ResponseWithOptions} to transfer data
+   */
+  onRequestHandler?: (request: any) => any;
   /**
    * If set, then the thread will automatically close if it has not received a message after so many milliseconds.
    *
@@ -369,7 +1234,21 @@ export interface ThreadOptions {
   /**
    * Custom handler for when a thread is closed/killed
    */
-  closeHandler?: (thread: Thread) => any;
+  closeHandler?: (thread: Thread<C>) => any;
+  /**
+   * If set, then the thread is pinged periodically and marked as unresponsive (see {@link Thread.isResponsive}) when it
+   * stops answering (e.g. an `onwork` handler is stuck in an infinite loop).
+   * Any message from the thread counts as a response, as do calls to {@link heartbeat} inside the thread (which lets
+   * long-running synchronous work show that it is still making progress).
+   */
+  heartbeat?: HeartbeatOptions<C>;
+  /**
+   * If set, then messages sent to and from the thread in the same microtask (or within the batch window) are sent
+   * together as one message. This cuts down on messaging overhead when sending lots of small pieces of work.
+   * Messages that transfer ownership of memory are never batched, and messages are always received in the order they were sent.
+   * Set to `true` to use the default options
+   */
+  batch?: boolean | BatchOptions;
   /**
    * Type option to pass directly to the worker constructor. Often set to "module" when using esm modules
    */
@@ -385,20 +1264,74 @@ export interface ThreadOptions {
   credentials?: "omit" | "same-origin" | "include";
 }
 
+/**
+ * Options for creating a thread from a function (see {@link Thread.fromFunction})
+ */
+export interface FunctionThreadOptions {
+  /**
+   * URL of the threads library script for the thread to load. Defaults to the URL this library was loaded from.
+   * Must be an ES module build when the `type` option is "module" (or in Node.js), and a classic build (e.g. threads.iife.js) otherwise
+   */
+  runtimeUrl?: string;
+}
+
+/**
+ * Creates an object URL for a worker script which loads the threads library and registers a function as the `work` handler.
+ * Used by {@link Thread.fromFunction} and {@link ThreadPool.fromFunction}, you will not need to call this directly
+ * @param fn Work handler. Must be self-contained since only its source code is sent to the thread
+ * @param options Options for the thread
+ * @return Object URL for the script (a data URL in Node.js). Revoke it once it's no longer needed
+ */
+export function functionWorkerUrl(
+  fn: (work: any, ctx: WorkContext) => any,
+  options?: FunctionThreadOptions & { type?: "classic" | "module" },
+): string {
+  const url = options?.runtimeUrl || runtimeUrl;
+  if (!url) {
+    throw new UnknownRuntimeUrlError();
+  }
+  // blob scripts can't resolve relative URLs
+  const lib = JSON.stringify(new URL(url, scriptBaseUrl()).href);
+  // Node.js can't run workers from object URLs, but it can run ES modules from data URLs
+  const node = getRuntime().name === "node";
+  // classic scripts can't find their own URL, so it's set before the library is loaded (see runtimeUrl)
+  const load =
+    options?.type === "module" || node
+      ? `import * as threads from ${lib};\n`
+      : `self.__threadsRuntimeUrl = ${lib};\nimportScripts(${lib});\n`;
+  const source =
+    load + `threads.registerHandler("work", (${fn.toString()}));\n`;
+  if (node) {
+    return "data:text/javascript," + encodeURIComponent(source);
+  }
+  return URL.createObjectURL(
+    new Blob([source], { type: "application/javascript" }),
+  );
+}
+
 /**
  * Options for connecting to a shared thread
  */
-export interface SharedThreadOptions {
+export interface SharedThreadOptions<
+  C extends ThreadContract = ThreadContract,
+> {
   /** Initial data for the connection (passed to `oninit`) */
-  initData?: any;
+  initData?: ContractInit<C>;
+  /** Contract for validating messages sent to and received from the thread */
+  contract?: C;
   /** Custom onEventHandler for when a custom message is received from the thread */
   onEventHandler?: (event: any) => any;
   /** Custom onEventHandler for when a custom message is received from the thread */
   onTransferHandler?: (transferEvent: any) => any;
   /** Custom onErrorHandler for when an error is received from the thread */
   onErrorHandler?: (err: any) => any;
+  /**
+   * Handler for requests sent by the thread with `requestParent`. The returned value (or thrown error) is sent back
+   * as the response. Return a {@link ResponseWithTransfer} or {@link ResponseWithOptions} to transfer data
+   */
+  onRequestHandler?: (request: any) => any;
   /** Custom onCloseHandler for when a port is closed */
-  onCloseHandler?: (thread: SharedThread) => any;
+  onCloseHandler?: (thread: SharedThread<C>) => any;
   /**
    * If set, then the connection will automatically close if it has not received a message after so many milliseconds.
    *
@@ -440,7 +1373,17 @@ export interface SharedThreadOptions {
  * If the `__system: true` key/value pair is set to true, then the following determination for processing is used:
  *  - If there is a `__error` field, then the result is an error object
  *  - If there is a `workId` field and either a `res` or `rej` field, then it is a work result object that should get dispatched to the associated promise
+ *  - If there is a `workId` field and a `progress` field, then it is a progress report that should get dispatched to the associated `onProgress` callback
+ *  - If there is a `workId` field and a `chunk` field, then it is a streamed result that should get dispatched to the associated {@link WorkStream}
  *  - If there is a `workId` field and a `work` field, then it is a work request object that should get dispatched to the `onwork` handler (or `onevent` if `onwork` does not exist)
+ *    - If it also has a `stream` field, then results are streamed back as `chunk` messages, and `stream` is the number of chunks that may be sent before waiting for more credits
+ *    - The result has a `duration` field with how long (in milliseconds) the thread spent running the work
+ *    - If it also has a `trace` field, then the thread records a `worker.execute` span nested under that trace context, and sends it back in the result's `span` field (see {@link setTracer})
+ *  - If there is a `__credit` field, then it gives the stream for that work id more credits (stored in the `n` field)
+ *  - If there is both a `linkId` and `link` field, then it is a link request. The `link` port is wrapped in a {@link PeerThread} and given to the `onlink` handler
+ *  - If there is a `__linked` field, then it indicates that it is a "link finished" event and the associated link promise should be resolved
+ *  - If there is a `requestId` field and a `request` field, then it is a request from the child thread that should get dispatched to the parent's `onRequestHandler`
+ *  - If there is a `requestId` field and either a `res` or `rej` field, then it is the parent's response to a request and should get dispatched to the associated `requestParent` promise
  *  - If there is an `__initd` field, then it indicates that it is an "initialization finished" event and the spawn promise should be resolved
  *  - If there is a `__shared` field, then it indicates that it is a "share finished" event and the associated share promise should be resolved
  *  - If there is a `__transferd` field, then it indicates that it is a "transfer finished" event and the associated transfer promise should be resolved
@@ -448,7 +1391,15 @@ export interface SharedThreadOptions {
  *  - If there is `transfer` field, then it indicates a transfer request. The `ontransfer` method will be called if it exists, or `onevent` will be called
  *  - If there is both a `threadId` and an `init` field, then it is an initialization event. The `oninit` handler will be called if it is set
  *  - If there is a `__channel` field, then it indicates it is a "channel control" event (e.g. make, send, close). When a channel is made, `onchannel` is called
- *  - If there is a `__close` field, then it indicates the worker stopped running (aka. close() was called)
+ *  - If there is a `__close` field, then it indicates the worker stopped running (aka. close() was called).
+ *    When sent to the thread, it asks the thread to close. It may have `drainTimeout` and `childTimeout` fields with how long to wait for in-flight messages and child threads (see {@link CloseOptions})
+ *  - If there is a `__closed` field, then it indicates the worker finished closing (including closing its own child threads) and is about to exit
+ *  - If there is a `workId` field and a `__descendants` field, then it is a request for the ids of all threads spawned by the thread (and their descendants)
+ *  - If there is a `__cancel` field, then it is a cancellation request for the work with that id. The signal given to `onwork` for that work is aborted
+ *  - If there is a `__ping` field, then it is a liveness check and the thread responds right away with a `__pong` field holding the same value
+ *  - If there is a `__pong` field, then it is the thread's response to a liveness check (see {@link ThreadOptions.heartbeat})
+ *  - If there is a `__log` field, then it is a log record forwarded by the thread (see {@link LoggingOptions.forwardToParent}) which is given to the parent's logger
+ *  - If there is a `__batch` field, then it is a list of messages which were sent together (see {@link ThreadOptions.batch}). Each message is processed in order as if it was sent on its own
  *  - Otherwise, it is considered an "invalid system event" and an error is thrown
  *
  * The `onshare`, `oninit`, `ontransfer`, and `onwork` handlers can return promises. In those cases the promise will be awaited prior to sending the response event.
@@ -477,6 +1428,9 @@ export interface SharedThreadOptions {
  *  * If a promise is returned, it will be awaited. Return value not sent back to the parent thread
  * * `onwork` - Called when the parent thread sends some piece of work to the child thread
  *  * If a promise is returned, it will be awaited. Return value **will** be sent back to the parent thread
+ *  * Also receives a {@link WorkContext} which has an `AbortSignal` that is aborted if the parent cancels the work
+ * * `onlink` - Called with a {@link PeerThread} handle when the thread is linked to another thread (see {@link Thread.link})
+ *  * If a promise is returned, it will be awaited. Return value not sent back to the parent thread
  * * `onevent` - Called when either a custom event is sent to the worker thread, or when one of the above handlers is missing and an event comes in that would have gone to one of the above (uses `onevent` as a catch-all)
  *   * If a promise is returned, it will be awaited. Return value not sent back to the parent thread.
  *
@@ -489,35 +1443,82 @@ export interface SharedThreadOptions {
  * * `numMessagesProcessing(): number` - Gets the number of outstanding messages currently being processed (useful for custom `onclose` handles)
  * * `curThread(): string` - Gets the current thread's ID
  * * `transfer(message: any, items: []any): void` - Transfers ownership of a resource to the parent thread
+ * * `requestParent(request: any): Promise<any>` - Sends a request to the parent thread and waits for the parent's `onRequestHandler` to respond
+ * * `heartbeat(): void` - Tells the parent the thread is alive while it is busy (see {@link ThreadOptions.heartbeat})
  *
  */
-export class Thread implements ThreadWorker {
-  private worker: Worker;
+export class Thread<C extends ThreadContract = ThreadContract>
+  extends ThreadEventTarget<ThreadEventMap>
+  implements ThreadWorker<C>
+{
+  private worker: RuntimeWorker;
   private threadId: string;
   private incWorkId: number = 0;
   private handler: ((_: any) => any) | undefined;
   private transferHandler: ((_: any) => any) | undefined;
+  private requestHandler: ((_: any) => any) | undefined;
   private errHandler: ((_: any) => any) | undefined;
-  private closeHandler: ((_: Thread) => any) | undefined;
+  private closeHandler: ((_: Thread<C>) => any) | undefined;
+  private contract: C | undefined;
 
   private workQueue: {
     [id: string]: {
       res: (_: any) => any;
       rej: (_: any) => any;
+      progress?: (_: any) => any;
+      chunk?: (_: any) => any;
+      callSite?: Error;
+      span?: Span | null;
+      work?: any;
     };
   } = {};
+  private cancelledWork: Set<string> = new Set<string>();
   private killed: boolean = false;
-  private pending: number = 0;
+  private pendingCount: number = 0;
+  private markExited: () => void = () => {};
+  private exited: Promise<void>;
+  private hasExited: boolean = false;
+  private stopped: boolean = false;
+  private closing: Promise<CloseResult> | null = null;
+  private abandoned: AbandonedWork[] = [];
+  private objectUrl: string | undefined = undefined;
+  private heartbeat: HeartbeatOptions<C> | undefined;
+  private heartbeatCounter: Int32Array | undefined = undefined;
+  private heartbeatCount: number = 0;
+  private heartbeatTimer: any = null;
+  private lastHeartbeat: number = 0;
+  private incPingId: number = 0;
+  private responsive: boolean = true;
+  private batcher: MessageBatcher | null = null;
+  private counters = {
+    workSent: 0,
+    workCompleted: 0,
+    workFailed: 0,
+    itemsTransferred: 0,
+    bytesTransferred: 0,
+  };
+  private roundTrip: Histogram = new Histogram();
+  private execution: Histogram = new Histogram();
+  private statsPublisher: StatsPublisher<ThreadStats> = new StatsPublisher(() =>
+    this.stats(),
+  );
 
   private constructor(
     res: any,
     rej: any,
     script: string,
-    options?: ThreadOptions,
+    options?: ThreadOptions<C>,
   ) {
+    super();
+    this.contract = options?.contract;
+    checkContract(this.contract, "init", options?.initData ?? null);
     this.threadId = curThreadId + "->" + ++incThreadId;
     const threadId = this.threadId;
-    doLogs && console.log(curThreadId, "Spawning thread" + this.threadId);
+    log("debug", "spawn", () => "Spawning thread " + this.threadId);
+    const spawnSpan = startSpan("thread.spawn", {
+      thread: this.threadId,
+      script,
+    });
 
     const workerOpts: any = {};
 
@@ -533,20 +1534,42 @@ export class Thread implements ThreadWorker {
       workerOpts.credentials = options.credentials;
     }
 
-    this.worker = new Worker(script, workerOpts);
+    this.worker = getRuntime().createWorker(script, workerOpts);
+    this.exited = new Promise<void>((resolve) => {
+      this.markExited = () => {
+        this.hasExited = true;
+        childThreadExits.delete(this);
+        resolve();
+      };
+    });
+    childThreadExits.set(this, this.exited);
 
     const oldPostMessage = this.worker.postMessage.bind(this.worker);
+    const counters = this.counters;
+    // posts a message which is already dehydrated
+    const post = (message: any, args: any[]) => {
+      // counted before posting since transferred buffers are detached
+      const { items, bytes } = transferSize(args[0]?.transfer || []);
+      counters.itemsTransferred += items;
+      counters.bytesTransferred += bytes;
+      return oldPostMessage(message, ...args);
+    };
     this.worker.postMessage = (
       function (message: any, options?: ResponseOptions) {
-        doLogs &&
-          console.log(curThreadId, "Sending message to " + threadId, message);
-        message = dehydrate(message);
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Dehydrated message to " + threadId,
-            message,
-          );
+        log(
+          "debug",
+          "messaging",
+          () => "Sending message to " + threadId,
+          message,
+        );
+        message = dehydrate(message, options?.autoTransfer);
+        const ports = takeTransfers();
+        log(
+          "debug",
+          "hydration",
+          () => "Dehydrated message to " + threadId,
+          message,
+        );
 
         if (options && options.transfer) {
           for (let i = 0; i < options.transfer.length; ++i) {
@@ -562,85 +1585,192 @@ export class Thread implements ThreadWorker {
               options.transfer.splice(i, 1, ...t);
             }
           }
-          if (doLogs && options.transfer.length) {
-            console.log(
-              curThreadId,
+          if (options.transfer.length) {
+            log(
+              "debug",
+              "messaging",
               "Transferring several items over, memory will no longer be owned",
             );
           }
         }
 
-        return oldPostMessage(message, options as any);
+        return post(message, withTransfers([options], ports));
       } as any
     ).bind(this.worker);
 
+    const batchMs = batchWindow(options?.batch);
+    if (batchMs !== null) {
+      const send = this.worker.postMessage.bind(this.worker);
+      const batcher = new MessageBatcher(batchMs, (batch) =>
+        post({ __system: true, __batch: batch }, [undefined]),
+      );
+      this.batcher = batcher;
+      this.worker.postMessage = (message: any, options?: any) => {
+        if (canBatch(options)) {
+          const batched = prepareBatched(message);
+          if (!batched.ports.length) {
+            batcher.push(batched.message);
+            return;
+          }
+          // ports have to be transferred, so the message is sent on its own
+          batcher.flush();
+          post(batched.message, withTransfers([options], batched.ports));
+        } else {
+          batcher.flush();
+          send(message, options);
+        }
+      };
+    }
+
+    this.heartbeat = options?.heartbeat;
+    if (this.heartbeat && typeof SharedArrayBuffer !== "undefined") {
+      this.heartbeatCounter = new Int32Array(new SharedArrayBuffer(4));
+    }
+
     this.worker.postMessage({
       __system: true,
       threadId: this.threadId,
-      init: options?.initData || null,
+      init: options?.initData ?? null,
       closeWhenIdle: options?.closeWhenIdle || Infinity,
+      heartbeat: this.heartbeatCounter || null,
+      batch: batchMs,
     });
     this.handler = options?.onEventHandler;
     this.errHandler = options?.onErrorHandler;
     this.closeHandler = options?.closeHandler;
     this.transferHandler = options?.onTransferHandler;
-
-    this.worker.onmessage = (e) => {
-      doLogs &&
-        console.log(curThreadId, "Received message from " + this.threadId, e);
-      e = { ...e, data: hydrate(e.data) };
-
-      doLogs &&
-        console.log(curThreadId, "Hydrated message from " + this.threadId, e);
+    this.requestHandler = options?.onRequestHandler;
+    let initialized = false;
+
+    const onMessage = (e: MessageEvent) => {
+      log(
+        "debug",
+        "messaging",
+        () => "Received message from " + this.threadId,
+        e.data,
+      );
+      this.markResponsive();
+      const receivedAt = isTracing() ? traceTime() : 0;
+      e = { ...e, data: hydrateMessage(e.data) };
+
+      log(
+        "debug",
+        "hydration",
+        () => "Hydrated message from " + this.threadId,
+        e.data,
+      );
       if (
         e.data &&
         typeof e.data === "object" &&
         e.data.hasOwnProperty("__system") &&
         e.data.__system
       ) {
-        doLogs &&
-          console.log(curThreadId, "System message from " + this.threadId, e);
-        if (e.data.hasOwnProperty("__error")) {
+        log(
+          "debug",
+          "messaging",
+          () => "System message from " + this.threadId,
+          e.data,
+        );
+        // init errors are handled below by rejecting the spawn
+        if (
+          e.data.hasOwnProperty("__error") &&
+          !e.data.hasOwnProperty("__initd")
+        ) {
+          this.emit("error", this.threadId, e.data.__error);
           if (this.errHandler) {
             this.errHandler(e.data.__error);
           } else {
-            console.error(
-              `Received error from thread ${this.threadId}!`,
+            log(
+              "error",
+              "messaging",
+              () => `Received error from thread ${this.threadId}!`,
               e.data.__error,
             );
             throw new Error(e.data.__error);
           }
         } else if (e.data.hasOwnProperty("__close")) {
-          doLogs &&
-            console.log(
-              curThreadId,
-              "Thread " + this.threadId + " stopped running!",
-              e,
-            );
+          log(
+            "debug",
+            "shutdown",
+            () => "Thread " + this.threadId + " stopped running!",
+          );
           this.closeThread();
+        } else if (e.data.hasOwnProperty("__closed")) {
+          log("debug", "shutdown", () => "Thread " + this.threadId + " exited");
+          this.abandonPending();
+          this.markExited();
+        } else if (e.data.hasOwnProperty("__pong")) {
+          // already marked as responsive above
+          return;
+        } else if (e.data.hasOwnProperty("__log")) {
+          emitLog(e.data.__log);
+          return;
+        } else if (
+          e.data.hasOwnProperty("requestId") &&
+          e.data.hasOwnProperty("request")
+        ) {
+          this.respondToRequest(e.data.requestId, e.data.request);
         } else if (
           e.data.hasOwnProperty("workId") &&
           (e.data.hasOwnProperty("res") || e.data.hasOwnProperty("rej"))
         ) {
-          if (!this.workQueue.hasOwnProperty(e.data.workId)) {
-            console.error(
-              "UNKNOWN JOB " + e.data.workId + " FROM THREAD " + this.threadId,
+          if (this.cancelledWork.has(e.data.workId)) {
+            // late response for cancelled work, the caller was already rejected
+            this.cancelledWork.delete(e.data.workId);
+          } else if (!this.workQueue.hasOwnProperty(e.data.workId)) {
+            log(
+              "error",
+              "messaging",
+              () =>
+                "UNKNOWN JOB " +
+                e.data.workId +
+                " FROM THREAD " +
+                this.threadId,
+              undefined,
+              e.data.workId,
             );
           } else {
-            const { res, rej } = this.workQueue[e.data.workId];
+            const { res, rej, callSite, span } = this.workQueue[e.data.workId];
+            if (e.data.hasOwnProperty("duration")) {
+              this.execution.record(e.data.duration);
+            }
+            if (span) {
+              if (e.data.span) {
+                recordSpan(e.data.span);
+              }
+              recordSpan(
+                finishSpan(
+                  createSpan(
+                    "thread.receive",
+                    { workId: e.data.workId },
+                    span,
+                    receivedAt,
+                  ),
+                ),
+              );
+            }
             try {
               if (e.data.hasOwnProperty("res")) {
-                doLogs &&
-                  console.log(
-                    curThreadId,
+                log(
+                  "debug",
+                  "messaging",
+                  () =>
                     "Thread " +
-                      this.threadId +
-                      " finished work " +
-                      e.data.workId,
-                  );
+                    this.threadId +
+                    " finished work " +
+                    e.data.workId,
+                  undefined,
+                  e.data.workId,
+                );
                 res(e.data.res);
               } else {
-                rej(e.data.rej || new BadResponseError());
+                rej(
+                  stitchStack(
+                    e.data.rej || new BadResponseError(),
+                    callSite,
+                    this.threadId,
+                  ),
+                );
               }
             } finally {
               delete this.workQueue[e.data.workId];
@@ -648,15 +1778,58 @@ export class Thread implements ThreadWorker {
             }
             return;
           }
+        } else if (
+          e.data.hasOwnProperty("workId") &&
+          e.data.hasOwnProperty("chunk")
+        ) {
+          const work = this.workQueue[e.data.workId];
+          if (work && work.chunk) {
+            work.chunk(e.data.chunk);
+          }
+          return;
+        } else if (
+          e.data.hasOwnProperty("workId") &&
+          e.data.hasOwnProperty("progress")
+        ) {
+          const work = this.workQueue[e.data.workId];
+          if (work && work.progress) {
+            log(
+              "debug",
+              "messaging",
+              () =>
+                "Thread " +
+                this.threadId +
+                " reported progress for " +
+                e.data.workId,
+              e.data.progress,
+              e.data.workId,
+            );
+            work.progress(e.data.progress);
+          }
+          return;
         } else if (e.data.hasOwnProperty("__initd")) {
           if (e.data.__initd) {
+            initialized = true;
+            endSpan(spawnSpan);
+            this.startHeartbeat();
             res();
           } else {
-            rej(new ThreadSpawnFailedError(e.data.__error));
-            this.worker.terminate();
-            this.killed = true;
+            stopped(e.data.__error);
+          }
+          log("debug", "spawn", () => "Spawned thread " + this.threadId);
+        } else if (e.data.hasOwnProperty("__linked")) {
+          const { res, rej } = this.workQueue[e.data.__linked];
+          try {
+            if (e.data.hasOwnProperty("rej")) {
+              rej(e.data.rej);
+            } else {
+              res(null);
+            }
+          } finally {
+            delete this.workQueue[e.data.__linked];
+            --this.pending;
           }
-          doLogs && console.log(curThreadId, "Spawned thread " + this.threadId);
+          return;
         } else if (e.data.hasOwnProperty("__shared")) {
           const { res, rej } = this.workQueue[e.data.__shared];
           try {
@@ -684,6 +1857,7 @@ export class Thread implements ThreadWorker {
           }
           return;
         } else if (e.data.hasOwnProperty("transfer")) {
+          this.emit("transfer", this.threadId, e.data.message);
           if (this.transferHandler) {
             this.transferHandler(e.data.message);
           } else if (this.handler) {
@@ -693,33 +1867,83 @@ export class Thread implements ThreadWorker {
         } else {
           throw new BadResponseError();
         }
-      } else if (this.handler) {
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Custom message from " + this.threadId + " dispatched to handler",
-          );
-        this.handler(e);
       } else {
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Unknown message from " +
+        this.emit("message", this.threadId, e);
+        if (this.handler) {
+          log(
+            "debug",
+            "messaging",
+            () =>
+              "Custom message from " + this.threadId + " dispatched to handler",
+          );
+          this.handler(e);
+        } else {
+          log(
+            "debug",
+            "messaging",
+            () =>
+              "Unknown message from " +
               this.threadId +
               " and no handler registered!",
           );
+        }
+      }
+    };
+    this.worker.onmessage = (e) => unbatch(e, onMessage);
+
+    // the worker stopped without closing (it failed to load, crashed, or exited on its own)
+    const stopped = (err: any) => {
+      if (this.hasExited) {
+        return;
+      }
+      this.batcher?.clear();
+      this.worker.terminate();
+      if (initialized) {
+        log(
+          "error",
+          "shutdown",
+          () => `Thread ${this.threadId} stopped running!`,
+          err,
+        );
+        this.closeThread();
+        this.abandonPending();
+      } else {
+        endSpan(spawnSpan, err);
+        rej(new ThreadSpawnFailedError(err));
+        this.killed = true;
       }
+      this.markExited();
     };
 
+    let lastError: any = undefined;
     this.worker.onerror = (e) => {
-      console.error(`Thread ${this.threadId} had an error!`, e);
+      log(
+        "error",
+        "messaging",
+        () => `Thread ${this.threadId} had an error!`,
+        e,
+      );
+      lastError = e;
+      this.emit("error", this.threadId, e);
       if (this.errHandler) {
         this.errHandler(e);
       }
+      if (isLoadFailure(e)) {
+        stopped(e);
+      }
     };
 
+    this.worker.onexit = (code) =>
+      stopped(lastError ?? new Error(`Thread exited with code ${code}`));
+
     this.worker.onmessageerror = (e) => {
-      console.error(`Cound not send message to thread ${this.threadId}!`, e);
+      log(
+        "error",
+        "messaging",
+        () => `Cound not send message to thread ${this.threadId}!`,
+        e,
+      );
+      this.emit("error", this.threadId, e);
       if (this.errHandler) {
         this.errHandler(e);
       }
@@ -728,16 +1952,16 @@ export class Thread implements ThreadWorker {
 
   /**
    * Spawns and initializes a new thread for consumption.
-   * @param script URI for the script that will be run by the thread (should include this library)
+   * @param script URI for the script that will be run by the thread (should include this library). In Node.js, a file path or URL
    * @param options Options for initializing the thread
    * @return A promise for when the thread is initialized (important to await the promise before using shared memory in any thread to avoid potential race conditions). Promise may reject if there was an initialization error.
    */
-  public static spawn(
+  public static spawn<C extends ThreadContract = ThreadContract>(
     script: string,
-    options?: ThreadOptions,
-  ): Promise<Thread> {
-    return new Promise<Thread>((resolve, reject) => {
-      const t = new Thread(
+    options?: ThreadOptions<C>,
+  ): Promise<Thread<C>> {
+    return new Promise<Thread<C>>((resolve, reject) => {
+      const t: Thread<C> = new Thread<C>(
         () => resolve(t),
         (err: any) => reject(err),
         script,
@@ -746,6 +1970,72 @@ export class Thread implements ThreadWorker {
     });
   }
 
+  /**
+   * Links two threads with a direct channel, so they can send work, events and shares to each other without going
+   * through the current thread. Each thread gets a {@link PeerThread} handle for the other thread in its `onlink` handler.
+   * @param a Thread to link
+   * @param b Thread to link with
+   * @return A promise for when both threads have received their handles
+   */
+  public static async link(a: Thread<any>, b: Thread<any>): Promise<void> {
+    const channel = new MessageChannel();
+    await Promise.all([
+      a.linkPort(channel.port1, b.id()),
+      b.linkPort(channel.port2, a.id()),
+    ]);
+  }
+
+  /**
+   * Spawns a thread which runs a function as its `work` handler, without needing a separate script file.
+   *
+   * The function's source code is put into a script (along with code to load the threads library) which is loaded from
+   * an object URL. The URL is revoked when the thread closes. Since only the source code is sent, the function can't
+   * use variables from outside itself (other than globals in the thread, such as `threads` for the library).
+   *
+   * @param fn Work handler for the thread (given the work and a {@link WorkContext}). Should be an arrow function or function expression
+   * @param options Options for initializing the thread
+   * @return A promise for when the thread is initialized
+   */
+  public static async fromFunction<C extends ThreadContract = ThreadContract>(
+    fn: (work: ContractRequest<C>, ctx: WorkContext) => any,
+    options?: ThreadOptions<C> & FunctionThreadOptions,
+  ): Promise<Thread<C>> {
+    const url = functionWorkerUrl(fn, options);
+    try {
+      const thread = await Thread.spawn<C>(url, options);
+      if (thread.killed) {
+        URL.revokeObjectURL(url);
+      } else {
+        thread.objectUrl = url;
+      }
+      return thread;
+    } catch (e) {
+      URL.revokeObjectURL(url);
+      throw e;
+    }
+  }
+
+  private linkPort(port: MessagePort, peerId: string): Promise<void> {
+    if (this.killed) {
+      return Promise.reject(new ThreadClosedError());
+    }
+    const linkId = this.nextWorkId();
+    ++this.pending;
+    const promise = new Promise((res, rej) => {
+      this.workQueue[linkId] = { res, rej };
+    });
+    log(
+      "debug",
+      "spawn",
+      () => `Linking thread ${this.threadId} with thread ${peerId}`,
+    );
+    this.worker.postMessage(
+      { __system: true, linkId, link: port, peerId },
+      { transfer: [port] },
+    );
+    return promise as Promise<void>;
+  }
+
   private nextWorkId() {
     if (crypto && crypto.randomUUID) {
       return this.threadId + ":" + crypto.randomUUID();
@@ -761,8 +2051,24 @@ export class Thread implements ThreadWorker {
     return this.threadId;
   }
 
+  private get pending(): number {
+    return this.pendingCount;
+  }
+
+  // busy and idle events are sent when the first request starts pending and when the last one finishes
+  private set pending(count: number) {
+    const was = this.pendingCount;
+    this.pendingCount = count;
+    if (was <= 0 && count > 0) {
+      this.emit("busy", this.threadId);
+    } else if (was > 0 && count <= 0) {
+      this.emit("idle", this.threadId);
+    }
+  }
+
   /**
-   * Set the handler for receiving custom `postMessage` events from the thread
+   * Set the handler for receiving custom `postMessage` events from the thread.
+   * Setting a handler replaces the previous one, so use `addEventListener("message", ...)` to add more listeners (see {@link ThreadEventMap})
    * @param h Handler for when an event is sent back from the event
    */
   public setOnEvent(h: ((_: any) => any) | undefined) {
@@ -770,7 +2076,8 @@ export class Thread implements ThreadWorker {
   }
 
   /**
-   * Set the handler for receiving transferred objects from the thread
+   * Set the handler for receiving transferred objects from the thread.
+   * Setting a handler replaces the previous one, so use `addEventListener("transfer", ...)` to add more listeners (see {@link ThreadEventMap})
    * @param h Handler for when ownership transferred
    */
   public setOnTransfer(h: ((_: any) => any) | undefined) {
@@ -778,13 +2085,50 @@ export class Thread implements ThreadWorker {
   }
 
   /**
-   * Set the handler for receiving custom `postMessage` events from the thread
+   * Set the handler for errors from the thread.
+   * Setting a handler replaces the previous one, so use `addEventListener("error", ...)` to add more listeners (see {@link ThreadEventMap}).
+   * Errors sent by the thread are thrown if there is no handler, even if there are listeners
    * @param h Handler for when there is an error from the thread
    */
   public setOnError(h: ((_: any) => any) | undefined) {
     this.errHandler = h;
   }
 
+  /**
+   * Set the handler for requests sent by the thread with `requestParent`
+   * @param h Handler which returns the response for a request
+   */
+  public setOnRequest(h: ((request: any) => any) | undefined) {
+    this.requestHandler = h;
+  }
+
+  private async respondToRequest(requestId: string, request: any) {
+    try {
+      if (!this.requestHandler) {
+        throw new NoRequestHandlerError();
+      }
+      let res = this.requestHandler(request);
+      if (promiseLike(res)) {
+        res = await res;
+      }
+      if (res instanceof ResponseWithTransfer) {
+        this.worker.postMessage(
+          { __system: true, requestId, res: res.message },
+          { transfer: res.transfer },
+        );
+      } else if (res instanceof ResponseWithOptions) {
+        this.worker.postMessage(
+          { __system: true, requestId, res: res.message },
+          res.options,
+        );
+      } else {
+        this.worker.postMessage({ __system: true, requestId, res });
+      }
+    } catch (err) {
+      this.worker.postMessage({ __system: true, requestId, rej: err });
+    }
+  }
+
   /**
    * Helper method for thread pools to claim a thread temporarily while waiting for a micro-tick to happen
    * (usually necessary when a pool can scale up as spawning threads is asynchronous, so pool scaling must be asynchronous
@@ -802,39 +2146,192 @@ export class Thread implements ThreadWorker {
   }
 
   /**
-   * Set the handler for when a thread is closed/killed
+   * Set the handler for when a thread is closed/killed.
+   * Setting a handler replaces the previous one, so use `addEventListener("close", ...)` to add more listeners (see {@link ThreadEventMap})
    * @param h Handler for when a thread is closed/killed
    */
-  public setOnClose(h: ((t: Thread) => any) | undefined) {
+  public setOnClose(h: ((t: Thread<C>) => any) | undefined) {
     this.closeHandler = h;
   }
 
   /**
    * Sends some piece of work off to a thread and returns a promise waiting for a response
    * @param work The work to send to the thread (passed to your `onwork` handler)
-   * @param options Options for sending an event (e.g. transfer data)
+   * @param options Options for sending work (e.g. transfer data, abort signal, timeout)
    * @return Promise with the result object from doing the work
    */
-  public sendWork<R = any>(
-    work: any,
-    options?: StructuredSerializeOptions,
+  public sendWork<R = ContractResponse<C>>(
+    work: ContractRequest<C>,
+    options?: SendWorkOptions,
   ): Promise<R> {
     if (this.killed) {
       throw new ThreadClosedError();
     }
+    return this.queueWork(this.nextWorkId(), work, options) as Promise<R>;
+  }
+
+  /**
+   * Sends some piece of work off to a thread and streams back the results.
+   * The `onwork` handler should return an iterator (e.g. a generator or async generator), and every value it yields is
+   * sent back as it's produced. Any other return value is sent back as a single result.
+   * @param work The work to send to the thread (passed to your `onwork` handler)
+   * @param options Options for sending work (e.g. transfer data, abort signal, timeout, buffer size)
+   * @return Stream of results from doing the work
+   */
+  public streamWork<T = any>(
+    work: ContractRequest<C>,
+    options?: StreamWorkOptions,
+  ): WorkStream<T> {
+    if (this.killed) {
+      throw new ThreadClosedError();
+    }
+    const { bufferSize, ...sendOptions } = options || {};
+    const credits = bufferSize && bufferSize > 0 ? bufferSize : 16;
     const workId = this.nextWorkId();
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Sending work ${workId} to thread ${this.threadId}`,
-        work,
-      );
+    const stream = new WorkStream<T>(
+      credits,
+      (n) => this.worker.postMessage({ __system: true, __credit: workId, n }),
+      () => this.cancelWork(workId, undefined),
+    );
+    this.queueWork(workId, work, sendOptions, stream, credits).then(
+      (r) => stream.end(r),
+      (err) => stream.fail(err),
+    );
+    return stream;
+  }
+
+  private queueWork(
+    workId: string,
+    work: any,
+    options?: SendWorkOptions,
+    stream?: WorkStream,
+    credits?: number,
+  ): Promise<any> {
+    const { signal, timeout, onProgress, trace, priority, ...postOptions } =
+      options || {};
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    // captured so that errors from the thread include the caller's stack
+    const callSite = captureCallSite();
+    try {
+      checkContract(this.contract, "request", work);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    const span = startSpan(
+      "thread.sendWork",
+      { thread: this.threadId, workId },
+      trace,
+    );
+    log(
+      "debug",
+      "messaging",
+      () => `Sending work ${workId} to thread ${this.threadId}`,
+      work,
+      workId,
+    );
     ++this.pending;
-    const promise = new Promise((res, rej) => {
-      this.workQueue[workId] = { res, rej };
-      this.worker.postMessage({ __system: true, workId, work }, options);
+    ++this.counters.workSent;
+    const sentAt = performance.now();
+    return new Promise((res, rej) => {
+      const onAbort = () => this.cancelWork(workId, signal!.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      let timer: any = null;
+      if (timeout && timeout > 0 && isFinite(timeout)) {
+        timer = setTimeout(
+          () => this.cancelWork(workId, new WorkTimeoutError(timeout)),
+          timeout,
+        );
+      }
+      const cleanup = () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+      };
+      this.workQueue[workId] = {
+        res: (v) => {
+          cleanup();
+          this.roundTrip.record(performance.now() - sentAt);
+          if (!stream) {
+            try {
+              checkContract(this.contract, "response", v);
+            } catch (e) {
+              ++this.counters.workFailed;
+              endSpan(span, e);
+              rej(e);
+              return;
+            }
+          }
+          ++this.counters.workCompleted;
+          endSpan(span);
+          res(v);
+        },
+        rej: (err) => {
+          cleanup();
+          ++this.counters.workFailed;
+          this.roundTrip.record(performance.now() - sentAt);
+          endSpan(span, err);
+          rej(err);
+        },
+        progress: onProgress,
+        chunk: stream && ((c) => stream.push(c)),
+        callSite,
+        span,
+        work,
+      };
+      const message: any = { __system: true, workId, work };
+      if (stream) {
+        message.stream = credits;
+      }
+      if (span) {
+        // lets the thread nest its spans under ours
+        message.trace = traceContext(span);
+      }
+      const send = startSpan("thread.send", { workId }, traceContext(span));
+      try {
+        this.worker.postMessage(message, postOptions);
+      } catch (e) {
+        endSpan(send, e);
+        // the work never reached the thread, so nothing will answer it
+        const { rej: fail } = this.workQueue[workId];
+        delete this.workQueue[workId];
+        --this.pending;
+        fail(e);
+      } finally {
+        endSpan(send);
+      }
     });
-    return promise as Promise<R>;
+  }
+
+  private cancelWork(workId: string, reason: any) {
+    if (!this.workQueue.hasOwnProperty(workId)) {
+      return;
+    }
+    log(
+      "debug",
+      "messaging",
+      () => `Cancelling work ${workId} on thread ${this.threadId}`,
+      undefined,
+      workId,
+    );
+    const { rej } = this.workQueue[workId];
+    delete this.workQueue[workId];
+    --this.pending;
+    this.cancelledWork.add(workId);
+    this.worker.postMessage({ __system: true, __cancel: workId });
+    rej(reason);
+  }
+
+  /**
+   * Creates a proxy for calling methods and reading properties of an object exposed in the thread with {@link expose}.
+   * Method calls return a promise of the result, and properties can be awaited to get their value.
+   * Since properties are awaitable, exposed objects cannot have a property named `then`.
+   * @param options Options used for every call made through the proxy (e.g. timeout)
+   */
+  public proxy<T>(options?: ProxyOptions): RemoteObject<T> {
+    return makeProxy<T>(this, options);
   }
 
   /**
@@ -845,21 +2342,75 @@ export class Thread implements ThreadWorker {
     return this.pending;
   }
 
+  /**
+   * Checks whether the thread is responding to heartbeats (see {@link ThreadOptions.heartbeat}).
+   * Threads spawned without the `heartbeat` option are always considered responsive
+   */
+  public isResponsive(): boolean {
+    return this.responsive;
+  }
+
+  /**
+   * Gets statistics for the work sent to the thread. Execution times are reported by the thread along with each result
+   */
+  public stats(): ThreadStats {
+    return {
+      ...this.counters,
+      pending: this.pending,
+      roundTrip: this.roundTrip.snapshot(),
+      execution: this.execution.snapshot(),
+    };
+  }
+
+  /**
+   * Calls a listener with the thread's latest statistics (see {@link Thread.stats}) until the thread closes
+   * @param listener Listener to call with the stats
+   * @param interval How often (in milliseconds) to call the listener. Defaults to 1000
+   * @return Function to stop calling the listener
+   */
+  public subscribeStats(
+    listener: (stats: ThreadStats) => any,
+    interval: number = 1000,
+  ): () => void {
+    return this.statsPublisher.subscribe(listener, interval);
+  }
+
+  /**
+   * Lists the ids of every thread spawned by this thread, including threads spawned by those threads (and so on)
+   * @return Promise with the thread ids. Each child is listed before its own descendants
+   */
+  public descendants(): Promise<string[]> {
+    if (this.killed) {
+      return Promise.reject(new ThreadClosedError());
+    }
+    const workId = this.nextWorkId();
+    ++this.pending;
+    const promise = new Promise<string[]>((res, rej) => {
+      this.workQueue[workId] = { res, rej };
+    });
+    this.worker.postMessage({ __system: true, workId, __descendants: true });
+    return promise;
+  }
+
   /**
    * Send a custom event to the thread
    * @param event Event to send
    * @param options Options for sending an event
    */
-  public sendEvent(event: any, options?: StructuredSerializeOptions): void {
+  public sendEvent(
+    event: ContractEvent<C>,
+    options?: StructuredSerializeOptions,
+  ): void {
     if (this.killed) {
       throw new ThreadClosedError();
     }
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Sending custom event to thread ${this.threadId}`,
-        event,
-      );
+    checkContract(this.contract, "event", event);
+    log(
+      "debug",
+      "messaging",
+      () => `Sending custom event to thread ${this.threadId}`,
+      event,
+    );
     this.worker.postMessage(event, options);
   }
 
@@ -885,7 +2436,7 @@ export class Thread implements ThreadWorker {
   public share(
     item: any,
     message?: any,
-    options?: StructuredSerializeOptions,
+    options?: TransferOptions,
   ): Promise<void> {
     if (this.killed) {
       throw new ThreadClosedError();
@@ -893,16 +2444,18 @@ export class Thread implements ThreadWorker {
     const shareId = this.nextWorkId();
     ++this.pending;
     const promise = new Promise((res, rej) => {
-      doLogs && console.log(curThreadId, "queued share", shareId);
+      log("debug", "messaging", "queued share", shareId);
       this.workQueue[shareId] = { res, rej };
     });
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Sharing item with thread ${this.threadId}`,
+    log(
+      "debug",
+      "messaging",
+      () => `Sharing item with thread ${this.threadId}`,
+      {
         item,
         message,
-      );
+      },
+    );
     if (typeof message != "undefined") {
       this.worker.postMessage(
         { __system: true, shareId, share: item, message },
@@ -921,8 +2474,13 @@ export class Thread implements ThreadWorker {
    * Transfer ownership of data to a thread
    * @param message Message to send indicating transfer information (should contain how the transferred object is accessed, like the TypedArray)
    * @param items The items to transfer ownership of (often an underlying piece of the accessed objects, liek the TypedArray's buffer)
+   * @param options Set `autoTransfer` to also transfer everything transferable in the message (see {@link TransferOptions.autoTransfer})
    */
-  public transfer(message: any, items: any[]): Promise<void> {
+  public transfer(
+    message: any,
+    items: any[],
+    options?: Pick<TransferOptions, "autoTransfer">,
+  ): Promise<void> {
     if (this.killed) {
       throw new ThreadClosedError();
     }
@@ -936,19 +2494,21 @@ export class Thread implements ThreadWorker {
     const transferId = this.nextWorkId();
     ++this.pending;
     const promise = new Promise((res, rej) => {
-      doLogs && console.log(curThreadId, "queued transfer", transferId);
+      log("debug", "messaging", "queued transfer", transferId);
       this.workQueue[transferId] = { res, rej };
     });
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Transferring items to thread ${this.threadId}`,
+    log(
+      "debug",
+      "messaging",
+      () => `Transferring items to thread ${this.threadId}`,
+      {
         items,
         message,
-      );
+      },
+    );
     this.worker.postMessage(
       { __system: true, transfer: transferId, message },
-      { transfer: items },
+      { ...options, transfer: items },
     );
     return promise as Promise<void>;
   }
@@ -958,31 +2518,176 @@ export class Thread implements ThreadWorker {
    * NOTE: USE THIS WITH CAUTION SINCE IT WILL TERMINATE A THREAD WITHOUT ANY CLEANUP! THIS CAN LEAD TO DEADLOCKS, LIVELOCKS, AND OTHER ISSUES!
    */
   public kill() {
-    doLogs && console.log(curThreadId, `Killing thread ${this.threadId}`);
+    log("debug", "shutdown", () => `Killing thread ${this.threadId}`);
+    this.batcher?.clear();
     this.worker.terminate();
     this.closeThread();
+    this.abandonPending();
+    this.markExited();
   }
 
   /**
    * Attempts to gracefully close a thread.
    * Will call the custom `onclose` handle in the thread if it is present.
-   * Will try waiting for all in-flight messages to finish processing. However, if the wait times out, then a force kill will be issued.
+   * Will try waiting for all in-flight messages to finish processing (see {@link CloseOptions.drainTimeout}). However, if the wait times out, then the thread closes anyway.
+   * Work which is still pending once the thread exits is rejected with a {@link ThreadClosedError}.
+   * @param options Options for closing the thread
+   * @return Resolves once the thread has exited (after its `onclose` handler finished), with the work that was abandoned
    */
-  public close() {
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Gracefully shutting down thread ${this.threadId}`,
-      );
+  public close(options?: CloseOptions): Promise<CloseResult> {
+    if (this.closing) {
+      return this.closing;
+    }
+    log(
+      "debug",
+      "shutdown",
+      () => `Gracefully shutting down thread ${this.threadId}`,
+    );
+    this.closing = this.exited.then(() => ({ abandoned: this.abandoned }));
+    if (options?.rejectPending) {
+      this.rejectPendingWork();
+    }
     this.killed = true;
-    this.worker.postMessage({ __system: true, __close: true });
+    this.stopHeartbeat();
+    this.killIfStuck(options);
+    this.worker.postMessage({
+      __system: true,
+      __close: true,
+      ...(options?.drainTimeout !== undefined && {
+        drainTimeout: options.drainTimeout,
+      }),
+      ...(options?.childTimeout !== undefined && {
+        childTimeout: options.childTimeout,
+      }),
+    });
+    return this.closing;
+  }
+
+  // a thread that never tells us it closed is killed so that close() still resolves
+  private killIfStuck(options?: CloseOptions) {
+    const exitTimeout = options?.exitTimeout ?? 5000;
+    if (!isFinite(exitTimeout)) {
+      return;
+    }
+    const wait =
+      (options?.drainTimeout ?? 1000) +
+      (options?.childTimeout ?? 2000) +
+      exitTimeout;
+    const timer = setTimeout(() => {
+      log(
+        "error",
+        "shutdown",
+        () =>
+          `Thread ${this.threadId} did not exit within ${wait}ms of closing, killing it`,
+      );
+      this.kill();
+    }, wait);
+    this.exited.then(() => clearTimeout(timer));
+  }
+
+  private rejectPendingWork() {
+    for (const [workId, entry] of Object.entries(this.workQueue)) {
+      if ("work" in entry) {
+        this.abandoned.push({
+          threadId: this.threadId,
+          workId,
+          work: entry.work,
+        });
+        this.cancelWork(workId, new ThreadClosedError());
+      }
+    }
+  }
+
+  // rejects everything still waiting for a response once the thread is gone
+  private abandonPending() {
+    const queue = this.workQueue;
+    this.workQueue = {};
+    this.pending = 0;
+    this.cancelledWork.clear();
+    for (const [workId, entry] of Object.entries(queue)) {
+      if ("work" in entry) {
+        this.abandoned.push({
+          threadId: this.threadId,
+          workId,
+          work: entry.work,
+        });
+      }
+      entry.rej(new ThreadClosedError());
+    }
+  }
+
+  private startHeartbeat() {
+    if (!this.heartbeat || this.killed) {
+      return;
+    }
+    const interval = this.heartbeat.interval || 1000;
+    const timeout = this.heartbeat.timeout || 5 * interval;
+    this.lastHeartbeat = Date.now();
+    this.heartbeatTimer = setInterval(
+      () => this.checkHeartbeat(timeout),
+      interval,
+    );
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private checkHeartbeat(timeout: number) {
+    if (this.heartbeatCounter) {
+      const count = Atomics.load(this.heartbeatCounter, 0);
+      if (count !== this.heartbeatCount) {
+        this.heartbeatCount = count;
+        this.markResponsive();
+      }
+    }
+    if (this.responsive && Date.now() - this.lastHeartbeat > timeout) {
+      log(
+        "info",
+        "messaging",
+        () => `Thread ${this.threadId} stopped responding for ${timeout}ms`,
+      );
+      this.responsive = false;
+      this.heartbeat?.onUnresponsive?.(this);
+    }
+    if (!this.killed) {
+      this.worker.postMessage({ __system: true, __ping: ++this.incPingId });
+    }
+  }
+
+  private markResponsive() {
+    if (!this.heartbeat) {
+      return;
+    }
+    this.lastHeartbeat = Date.now();
+    if (!this.responsive && !this.killed) {
+      log(
+        "info",
+        "messaging",
+        () => `Thread ${this.threadId} is responding again`,
+      );
+      this.responsive = true;
+      this.heartbeat.onResponsive?.(this);
+    }
   }
 
   private closeThread() {
     this.killed = true;
-    for (const { rej } of Object.values(this.workQueue)) {
-      rej(new ThreadClosedError());
+    this.stopHeartbeat();
+    this.statsPublisher.clear();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = undefined;
+    }
+    // handlers only run once (e.g. when a thread which is closing gets killed)
+    if (this.stopped) {
+      return;
     }
+    this.stopped = true;
+    this.emit("close", this.threadId);
     if (this.closeHandler) {
       this.closeHandler(this);
     }
@@ -1015,31 +2720,47 @@ export class Thread implements ThreadWorker {
  * and instead of trying to hide it (most likely by adding a "connection" to the Thread-side) we decided to embrace it.
  * Again, the semantics are different, how things work are different, and if you're not aware then you will run into issues.
  */
-export class SharedThread implements ThreadWorker {
+export class SharedThread<C extends ThreadContract = ThreadContract>
+  extends ThreadEventTarget<ThreadEventMap>
+  implements ThreadWorker<C>
+{
   private worker: SharedWorker;
   private incWorkId: number = 0;
   private handler: ((_: any) => any) | undefined;
   private transferHandler: ((_: any) => any) | undefined;
-  private closeHandler: ((_: SharedThread) => any) | undefined;
+  private requestHandler: ((_: any) => any) | undefined;
+  private closeHandler: ((_: SharedThread<C>) => any) | undefined;
+  private contract: C | undefined;
   private errHandler: ((_: any) => any) | undefined;
 
   private workQueue: {
     [id: string]: {
       res: (_: any) => any;
       rej: (_: any) => any;
+      progress?: (_: any) => any;
+      chunk?: (_: any) => any;
+      callSite?: Error;
+      work?: any;
     };
   } = {};
+  private cancelledWork: Set<string> = new Set<string>();
   private disconnected: boolean = false;
-  private pending: number = 0;
+  private closing: Promise<CloseResult> | null = null;
+  private markClosed: () => void = () => {};
+  private abandoned: AbandonedWork[] = [];
+  private pendingCount: number = 0;
   private script: string;
 
   private constructor(
     res: any,
     rej: any,
     script: string,
-    options?: SharedThreadOptions,
+    options?: SharedThreadOptions<C>,
   ) {
-    doLogs && console.log(curThreadId, "Connecting to shared thread " + script);
+    super();
+    this.contract = options?.contract;
+    checkContract(this.contract, "init", options?.initData ?? null);
+    log("debug", "spawn", () => "Connecting to shared thread " + script);
     this.script = script;
 
     const workerOpts: any = {};
@@ -1056,26 +2777,27 @@ export class SharedThread implements ThreadWorker {
       workerOpts.credentials = options.credentials;
     }
 
-    this.worker = new SharedWorker(script, workerOpts);
+    this.worker = createSharedWorker(script, workerOpts);
 
     this.worker.port.start();
 
     const oldPostMessage = this.worker.port.postMessage.bind(this.worker.port);
     this.worker.port.postMessage = (
       function (message: any, options?: ResponseOptions) {
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Sending message to shared thread " + script,
-            message,
-          );
-        message = dehydrate(message);
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Dehydrated message to shared thread " + script,
-            message,
-          );
+        log(
+          "debug",
+          "messaging",
+          () => "Sending message to shared thread " + script,
+          message,
+        );
+        message = dehydrate(message, options?.autoTransfer);
+        const ports = takeTransfers();
+        log(
+          "debug",
+          "hydration",
+          () => "Dehydrated message to shared thread " + script,
+          message,
+        );
 
         if (options && options.transfer) {
           for (let i = 0; i < options.transfer.length; ++i) {
@@ -1091,80 +2813,134 @@ export class SharedThread implements ThreadWorker {
               options.transfer.splice(i, 1, ...t);
             }
           }
-          if (doLogs && options.transfer.length) {
-            console.log(
-              curThreadId,
+          if (options.transfer.length) {
+            log(
+              "debug",
+              "messaging",
               "Transferring several items over, memory will no longer be owned",
             );
           }
         }
-        return oldPostMessage(message, options as any);
+        return oldPostMessage(message, ...withTransfers([options], ports));
       } as any
     ).bind(this.worker.port);
 
     this.worker.port.postMessage({
       __system: true,
-      init: options?.initData || null,
+      init: options?.initData ?? null,
       threadId: this.script,
     });
     this.handler = options?.onEventHandler;
     this.errHandler = options?.onErrorHandler;
     this.transferHandler = options?.onTransferHandler;
+    this.requestHandler = options?.onRequestHandler;
     this.closeHandler = options?.onCloseHandler;
 
     this.worker.port.onmessage = (e) => {
-      doLogs && console.log(curThreadId, "Received message from " + script, e);
-      e = { ...e, data: hydrate(e.data) };
+      log(
+        "debug",
+        "messaging",
+        () => "Received message from " + script,
+        e.data,
+      );
+      e = { ...e, data: hydrateMessage(e.data) };
 
-      doLogs && console.log(curThreadId, "Hydrated message from " + script, e);
+      log(
+        "debug",
+        "hydration",
+        () => "Hydrated message from " + script,
+        e.data,
+      );
       if (
         e.data &&
         typeof e.data === "object" &&
         e.data.hasOwnProperty("__system") &&
         e.data.__system
       ) {
-        doLogs && console.log(curThreadId, "System message from " + script, e);
-        if (e.data.hasOwnProperty("__error")) {
+        log(
+          "debug",
+          "messaging",
+          () => "System message from " + script,
+          e.data,
+        );
+        // init errors are handled below by rejecting the spawn
+        if (
+          e.data.hasOwnProperty("__error") &&
+          !e.data.hasOwnProperty("__initd")
+        ) {
+          this.emit("error", this.script, e.data.__error);
           if (this.errHandler) {
             this.errHandler(e.data.__error);
           } else {
-            console.error(
-              `Received error from thread ${script}!`,
+            log(
+              "error",
+              "messaging",
+              () => `Received error from thread ${script}!`,
               e.data.__error,
             );
             throw new Error(e.data.__error);
           }
         } else if (e.data.hasOwnProperty("__close")) {
-          doLogs &&
-            console.log(
-              curThreadId,
-              "Thread " + script + " stopped running!",
-              e,
-            );
+          log(
+            "debug",
+            "shutdown",
+            () => "Thread " + script + " stopped running!",
+          );
           this.disconnected = true;
+          this.emit("close", this.script);
           if (this.closeHandler) {
             this.closeHandler(this);
           }
+        } else if (e.data.hasOwnProperty("__closed")) {
+          log(
+            "debug",
+            "shutdown",
+            () => "Connection to thread " + script + " closed",
+          );
+          this.disconnected = true;
+          this.abandonPending();
+          this.worker.port.close();
+          this.markClosed();
+        } else if (
+          e.data.hasOwnProperty("requestId") &&
+          e.data.hasOwnProperty("request")
+        ) {
+          this.respondToRequest(e.data.requestId, e.data.request);
         } else if (
           e.data.hasOwnProperty("workId") &&
           (e.data.hasOwnProperty("res") || e.data.hasOwnProperty("rej"))
         ) {
-          if (!this.workQueue.hasOwnProperty(e.data.workId)) {
-            console.error(
-              "UNKNOWN JOB " + e.data.workId + " FROM THREAD " + script,
+          if (this.cancelledWork.has(e.data.workId)) {
+            // late response for cancelled work, the caller was already rejected
+            this.cancelledWork.delete(e.data.workId);
+          } else if (!this.workQueue.hasOwnProperty(e.data.workId)) {
+            log(
+              "error",
+              "messaging",
+              () => "UNKNOWN JOB " + e.data.workId + " FROM THREAD " + script,
+              undefined,
+              e.data.workId,
             );
           } else {
-            const { res, rej } = this.workQueue[e.data.workId];
+            const { res, rej, callSite } = this.workQueue[e.data.workId];
             try {
               if (e.data.hasOwnProperty("res")) {
-                doLogs &&
-                  console.log(
-                    curThreadId,
-                    "Thread " + script + " finished work " + e.data.workId,
-                  );
+                log(
+                  "debug",
+                  "messaging",
+                  () => "Thread " + script + " finished work " + e.data.workId,
+                  undefined,
+                  e.data.workId,
+                );
                 res(e.data.res);
               } else {
-                rej(e.data.rej || new BadResponseError());
+                rej(
+                  stitchStack(
+                    e.data.rej || new BadResponseError(),
+                    callSite,
+                    script,
+                  ),
+                );
               }
             } finally {
               delete this.workQueue[e.data.workId];
@@ -1172,6 +2948,32 @@ export class SharedThread implements ThreadWorker {
             }
             return;
           }
+        } else if (
+          e.data.hasOwnProperty("workId") &&
+          e.data.hasOwnProperty("chunk")
+        ) {
+          const work = this.workQueue[e.data.workId];
+          if (work && work.chunk) {
+            work.chunk(e.data.chunk);
+          }
+          return;
+        } else if (
+          e.data.hasOwnProperty("workId") &&
+          e.data.hasOwnProperty("progress")
+        ) {
+          const work = this.workQueue[e.data.workId];
+          if (work && work.progress) {
+            log(
+              "debug",
+              "messaging",
+              () =>
+                "Thread " + script + " reported progress for " + e.data.workId,
+              e.data.progress,
+              e.data.workId,
+            );
+            work.progress(e.data.progress);
+          }
+          return;
         } else if (e.data.hasOwnProperty("__initd")) {
           if (e.data.__initd) {
             res();
@@ -1180,7 +2982,7 @@ export class SharedThread implements ThreadWorker {
             this.worker.port.close();
             this.disconnected = true;
           }
-          doLogs && console.log(curThreadId, "Spawned thread " + script);
+          log("debug", "spawn", () => "Spawned thread " + script);
         } else if (e.data.hasOwnProperty("__shared")) {
           const { res, rej } = this.workQueue[e.data.__shared];
           try {
@@ -1208,6 +3010,7 @@ export class SharedThread implements ThreadWorker {
           }
           return;
         } else if (e.data.hasOwnProperty("transfer")) {
+          this.emit("transfer", this.script, e.data.message);
           if (this.transferHandler) {
             this.transferHandler(e.data.message);
           } else if (this.handler) {
@@ -1217,31 +3020,42 @@ export class SharedThread implements ThreadWorker {
         } else {
           throw new BadResponseError();
         }
-      } else if (this.handler) {
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Custom message from " + script + " dispatched to handler",
-          );
-        this.handler(e);
       } else {
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Unknown message from " + script + " and no handler registered!",
+        this.emit("message", this.script, e);
+        if (this.handler) {
+          log(
+            "debug",
+            "messaging",
+            () => "Custom message from " + script + " dispatched to handler",
+          );
+          this.handler(e);
+        } else {
+          log(
+            "debug",
+            "messaging",
+            () =>
+              "Unknown message from " + script + " and no handler registered!",
           );
+        }
       }
     };
 
     this.worker.onerror = (e) => {
-      console.error(`Thread ${this.script} had an error!`, e);
+      log("error", "messaging", () => `Thread ${this.script} had an error!`, e);
+      this.emit("error", this.script, e);
       if (this.errHandler) {
         this.errHandler(e);
       }
     };
 
     this.worker.port.onmessageerror = (e) => {
-      console.error(`Cound not send message to thread ${this.script}!`, e);
+      log(
+        "error",
+        "messaging",
+        () => `Cound not send message to thread ${this.script}!`,
+        e,
+      );
+      this.emit("error", this.script, e);
       if (this.errHandler) {
         this.errHandler(e);
       }
@@ -1254,12 +3068,12 @@ export class SharedThread implements ThreadWorker {
    * @param options Options for initializing the thread
    * @return A promise for when the thread is initialized (important to await the promise before using shared memory in any thread to avoid potential race conditions). Promise may reject if there was an initialization error.
    */
-  public static connect(
+  public static connect<C extends ThreadContract = ThreadContract>(
     script: string,
-    options?: SharedThreadOptions,
-  ): Promise<SharedThread> {
-    return new Promise<SharedThread>((resolve, reject) => {
-      const t = new SharedThread(
+    options?: SharedThreadOptions<C>,
+  ): Promise<SharedThread<C>> {
+    return new Promise<SharedThread<C>>((resolve, reject) => {
+      const t: SharedThread<C> = new SharedThread<C>(
         () => resolve(t),
         (err: any) => reject(err),
         script,
@@ -1283,8 +3097,24 @@ export class SharedThread implements ThreadWorker {
     return this.script;
   }
 
+  private get pending(): number {
+    return this.pendingCount;
+  }
+
+  // busy and idle events are sent when the first request starts pending and when the last one finishes
+  private set pending(count: number) {
+    const was = this.pendingCount;
+    this.pendingCount = count;
+    if (was <= 0 && count > 0) {
+      this.emit("busy", this.script);
+    } else if (was > 0 && count <= 0) {
+      this.emit("idle", this.script);
+    }
+  }
+
   /**
-   * Set the handler for receiving custom `postMessage` events from the thread
+   * Set the handler for receiving custom `postMessage` events from the thread.
+   * Setting a handler replaces the previous one, so use `addEventListener("message", ...)` to add more listeners (see {@link ThreadEventMap})
    * @param h Handler for when an event is sent back from the event
    */
   public setOnEvent(h: ((_: any) => any) | undefined) {
@@ -1292,7 +3122,8 @@ export class SharedThread implements ThreadWorker {
   }
 
   /**
-   * Set the handler for receiving transferred objects from the thread
+   * Set the handler for receiving transferred objects from the thread.
+   * Setting a handler replaces the previous one, so use `addEventListener("transfer", ...)` to add more listeners (see {@link ThreadEventMap})
    * @param h Handler for when ownership transferred
    */
   public setOnTransfer(h: ((_: any) => any) | undefined) {
@@ -1300,39 +3131,215 @@ export class SharedThread implements ThreadWorker {
   }
 
   /**
-   * Set the handler for receiving custom `postMessage` events from the thread
+   * Set the handler for errors from the thread.
+   * Setting a handler replaces the previous one, so use `addEventListener("error", ...)` to add more listeners (see {@link ThreadEventMap}).
+   * Errors sent by the thread are thrown if there is no handler, even if there are listeners
    * @param h Handler for when there is an error from the thread
    */
   public setOnError(h: ((_: any) => any) | undefined) {
     this.errHandler = h;
   }
 
+  /**
+   * Set the handler for requests sent by the thread with `requestParent`
+   * @param h Handler which returns the response for a request
+   */
+  public setOnRequest(h: ((request: any) => any) | undefined) {
+    this.requestHandler = h;
+  }
+
+  private async respondToRequest(requestId: string, request: any) {
+    try {
+      if (!this.requestHandler) {
+        throw new NoRequestHandlerError();
+      }
+      let res = this.requestHandler(request);
+      if (promiseLike(res)) {
+        res = await res;
+      }
+      if (res instanceof ResponseWithTransfer) {
+        this.worker.port.postMessage(
+          { __system: true, requestId, res: res.message },
+          { transfer: res.transfer },
+        );
+      } else if (res instanceof ResponseWithOptions) {
+        this.worker.port.postMessage(
+          { __system: true, requestId, res: res.message },
+          res.options,
+        );
+      } else {
+        this.worker.port.postMessage({ __system: true, requestId, res });
+      }
+    } catch (err) {
+      this.worker.port.postMessage({ __system: true, requestId, rej: err });
+    }
+  }
+
   /**
    * Sends some piece of work off to a thread and returns a promise waiting for a response
    * @param work The work to send to the thread (passed to your `onwork` handler)
-   * @param options Options for the postMessage method
+   * @param options Options for sending work (e.g. transfer data, abort signal, timeout)
    * @return Promise with the result object from doing the work
    */
-  public sendWork<R = any>(
-    work: any,
-    options?: StructuredSerializeOptions | ResponseOptions,
+  public sendWork<R = ContractResponse<C>>(
+    work: ContractRequest<C>,
+    options?: SendWorkOptions | ResponseOptions,
   ): Promise<R> {
     if (this.disconnected) {
       throw new ThreadClosedError();
     }
+    return this.queueWork(
+      this.nextWorkId(),
+      work,
+      options as SendWorkOptions,
+    ) as Promise<R>;
+  }
+
+  /**
+   * Sends some piece of work off to a thread and streams back the results.
+   * The `onwork` handler should return an iterator (e.g. a generator or async generator), and every value it yields is
+   * sent back as it's produced. Any other return value is sent back as a single result.
+   * @param work The work to send to the thread (passed to your `onwork` handler)
+   * @param options Options for sending work (e.g. transfer data, abort signal, timeout, buffer size)
+   * @return Stream of results from doing the work
+   */
+  public streamWork<T = any>(
+    work: ContractRequest<C>,
+    options?: StreamWorkOptions,
+  ): WorkStream<T> {
+    if (this.disconnected) {
+      throw new ThreadClosedError();
+    }
+    const { bufferSize, ...sendOptions } = options || {};
+    const credits = bufferSize && bufferSize > 0 ? bufferSize : 16;
     const workId = this.nextWorkId();
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Sending work ${workId} to thread ${this.script}`,
-        work,
-      );
+    const stream = new WorkStream<T>(
+      credits,
+      (n) =>
+        this.worker.port.postMessage({ __system: true, __credit: workId, n }),
+      () => this.cancelWork(workId, undefined),
+    );
+    this.queueWork(workId, work, sendOptions, stream, credits).then(
+      (r) => stream.end(r),
+      (err) => stream.fail(err),
+    );
+    return stream;
+  }
+
+  private queueWork(
+    workId: string,
+    work: any,
+    options?: SendWorkOptions,
+    stream?: WorkStream,
+    credits?: number,
+  ): Promise<any> {
+    const { signal, timeout, onProgress, trace, priority, ...postOptions } =
+      options || {};
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    // captured so that errors from the thread include the caller's stack
+    const callSite = captureCallSite();
+    try {
+      checkContract(this.contract, "request", work);
+    } catch (e) {
+      return Promise.reject(e);
+    }
+    log(
+      "debug",
+      "messaging",
+      () => `Sending work ${workId} to thread ${this.script}`,
+      work,
+      workId,
+    );
     ++this.pending;
-    const promise = new Promise((res, rej) => {
-      this.workQueue[workId] = { res, rej };
-      this.worker.port.postMessage({ __system: true, workId, work }, options);
+    return new Promise((res, rej) => {
+      const onAbort = () => this.cancelWork(workId, signal!.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      let timer: any = null;
+      if (timeout && timeout > 0 && isFinite(timeout)) {
+        timer = setTimeout(
+          () => this.cancelWork(workId, new WorkTimeoutError(timeout)),
+          timeout,
+        );
+      }
+      const cleanup = () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+      };
+      this.workQueue[workId] = {
+        res: (v) => {
+          cleanup();
+          if (!stream) {
+            try {
+              checkContract(this.contract, "response", v);
+            } catch (e) {
+              rej(e);
+              return;
+            }
+          }
+          res(v);
+        },
+        rej: (err) => {
+          cleanup();
+          rej(err);
+        },
+        progress: onProgress,
+        chunk: stream && ((c) => stream.push(c)),
+        callSite,
+        work,
+      };
+      try {
+        if (stream) {
+          this.worker.port.postMessage(
+            { __system: true, workId, work, stream: credits },
+            postOptions,
+          );
+        } else {
+          this.worker.port.postMessage(
+            { __system: true, workId, work },
+            postOptions,
+          );
+        }
+      } catch (e) {
+        // the work never reached the thread, so nothing will answer it
+        const { rej: fail } = this.workQueue[workId];
+        delete this.workQueue[workId];
+        --this.pending;
+        fail(e);
+      }
     });
-    return promise as Promise<R>;
+  }
+
+  private cancelWork(workId: string, reason: any) {
+    if (!this.workQueue.hasOwnProperty(workId)) {
+      return;
+    }
+    log(
+      "debug",
+      "messaging",
+      () => `Cancelling work ${workId} on thread ${this.script}`,
+      undefined,
+      workId,
+    );
+    const { rej } = this.workQueue[workId];
+    delete this.workQueue[workId];
+    --this.pending;
+    this.cancelledWork.add(workId);
+    this.worker.port.postMessage({ __system: true, __cancel: workId });
+    rej(reason);
+  }
+
+  /**
+   * Creates a proxy for calling methods and reading properties of an object exposed in the thread with {@link expose}.
+   * Method calls return a promise of the result, and properties can be awaited to get their value.
+   * Since properties are awaitable, exposed objects cannot have a property named `then`.
+   * @param options Options used for every call made through the proxy (e.g. timeout)
+   */
+  public proxy<T>(options?: ProxyOptions): RemoteObject<T> {
+    return makeProxy<T>(this, options);
   }
 
   /**
@@ -1348,23 +3355,28 @@ export class SharedThread implements ThreadWorker {
    * @param event Event to send
    * @param options Options for sending an event
    */
-  public sendEvent(event: any, options?: StructuredSerializeOptions): void {
+  public sendEvent(
+    event: ContractEvent<C>,
+    options?: StructuredSerializeOptions,
+  ): void {
     if (this.disconnected) {
       throw new ThreadClosedError();
     }
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Sending custom event to thread ${this.script}`,
-        event,
-      );
+    checkContract(this.contract, "event", event);
+    log(
+      "debug",
+      "messaging",
+      () => `Sending custom event to thread ${this.script}`,
+      event,
+    );
     this.worker.port.postMessage(event, options);
   }
   /**
-   * Set the handler for when a thread is closed/killed
+   * Set the handler for when a thread is closed/killed.
+   * Setting a handler replaces the previous one, so use `addEventListener("close", ...)` to add more listeners (see {@link ThreadEventMap})
    * @param h Handler for when a thread is closed/killed
    */
-  public setOnClose(h: ((t: SharedThread) => any) | undefined) {
+  public setOnClose(h: ((t: SharedThread<C>) => any) | undefined) {
     this.closeHandler = h;
   }
 
@@ -1390,7 +3402,7 @@ export class SharedThread implements ThreadWorker {
   public share(
     item: any,
     message?: any,
-    options?: StructuredSerializeOptions,
+    options?: TransferOptions,
   ): Promise<void> {
     if (this.disconnected) {
       throw new ThreadClosedError();
@@ -1398,16 +3410,13 @@ export class SharedThread implements ThreadWorker {
     const shareId = this.nextWorkId();
     ++this.pending;
     const promise = new Promise((res, rej) => {
-      doLogs && console.log(curThreadId, "queued share", shareId);
+      log("debug", "messaging", "queued share", shareId);
       this.workQueue[shareId] = { res, rej };
     });
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Sharing item with thread ${this.script}`,
-        item,
-        message,
-      );
+    log("debug", "messaging", () => `Sharing item with thread ${this.script}`, {
+      item,
+      message,
+    });
     if (typeof message != "undefined") {
       this.worker.port.postMessage(
         { __system: true, shareId, share: item, message },
@@ -1426,10 +3435,12 @@ export class SharedThread implements ThreadWorker {
    * Transfer ownership of data to a thread
    * @param message Message to send indicating transfer information (should contain how the transferred object is accessed, like the TypedArray)
    * @param items The items to transfer ownership of (often an underlying piece of the accessed objects, liek the TypedArray's buffer)
+   * @param options Set `autoTransfer` to also transfer everything transferable in the message (see {@link TransferOptions.autoTransfer})
    */
   public transfer(
     message: any,
     items: Transferable | TransferableFetchers,
+    options?: Pick<TransferOptions, "autoTransfer">,
   ): Promise<void> {
     if (this.disconnected) {
       throw new ThreadClosedError();
@@ -1444,29 +3455,118 @@ export class SharedThread implements ThreadWorker {
     const transferId = this.nextWorkId();
     ++this.pending;
     const promise = new Promise((res, rej) => {
-      doLogs && console.log(curThreadId, "queued transfer", transferId);
+      log("debug", "messaging", "queued transfer", transferId);
       this.workQueue[transferId] = { res, rej };
     });
-    doLogs &&
-      console.log(
-        curThreadId,
-        `Transferring items to thread ${this.script}`,
+    log(
+      "debug",
+      "messaging",
+      () => `Transferring items to thread ${this.script}`,
+      {
         items,
         message,
-      );
+      },
+    );
     this.worker.port.postMessage(
       { __system: true, transfer: transferId, message },
-      { transfer: items } as any,
+      { ...options, transfer: items } as any,
     );
     return promise as Promise<void>;
   }
 
+  /**
+   * Gracefully disconnects from the shared thread (the shared thread keeps running for its other connections).
+   * The thread's side of the connection waits for the messages it's processing to finish (see {@link CloseOptions.drainTimeout}).
+   * If the connection still hasn't closed after {@link CloseOptions.exitTimeout}, then it's abandoned. {@link CloseOptions.childTimeout} is ignored.
+   * Work which is still pending once the connection closes is rejected with a {@link ThreadClosedError}.
+   * @param options Options for closing the connection
+   * @return Resolves once the connection has closed, with the work that was abandoned
+   */
+  public close(options?: CloseOptions): Promise<CloseResult> {
+    if (this.closing) {
+      return this.closing;
+    }
+    log(
+      "debug",
+      "shutdown",
+      () => `Closing connection to thread ${this.script}`,
+    );
+    this.closing = new Promise<void>((resolve) => {
+      this.markClosed = resolve;
+    }).then(() => ({ abandoned: this.abandoned }));
+    if (options?.rejectPending) {
+      this.rejectPendingWork();
+    }
+    this.disconnected = true;
+    this.closeIfStuck(options);
+    this.worker.port.postMessage({
+      __system: true,
+      __close: true,
+      ...(options?.drainTimeout !== undefined && {
+        drainTimeout: options.drainTimeout,
+      }),
+    });
+    return this.closing;
+  }
+
+  // a shared thread which is gone (or whose onclose never finishes) never says the connection closed,
+  // so stop waiting for it so that close() still resolves
+  private closeIfStuck(options?: CloseOptions) {
+    const exitTimeout = options?.exitTimeout ?? 5000;
+    if (!isFinite(exitTimeout)) {
+      return;
+    }
+    const wait = (options?.drainTimeout ?? 1000) + exitTimeout;
+    const timer = setTimeout(() => {
+      log(
+        "error",
+        "shutdown",
+        () =>
+          `Connection to thread ${this.script} did not close within ${wait}ms, abandoning it`,
+      );
+      this.abandonPending();
+      this.worker.port.close();
+      this.markClosed();
+    }, wait);
+    this.closing!.then(() => clearTimeout(timer));
+  }
+
+  private rejectPendingWork() {
+    for (const [workId, entry] of Object.entries(this.workQueue)) {
+      if ("work" in entry) {
+        this.abandoned.push({
+          threadId: this.script,
+          workId,
+          work: entry.work,
+        });
+        this.cancelWork(workId, new ThreadClosedError());
+      }
+    }
+  }
+
+  // rejects everything still waiting for a response once the connection is gone
+  private abandonPending() {
+    const queue = this.workQueue;
+    this.workQueue = {};
+    this.pending = 0;
+    this.cancelledWork.clear();
+    for (const [workId, entry] of Object.entries(queue)) {
+      if ("work" in entry) {
+        this.abandoned.push({
+          threadId: this.script,
+          workId,
+          work: entry.work,
+        });
+      }
+      entry.rej(new ThreadClosedError());
+    }
+  }
+
   /**
    * Disconnects from a port
    */
   public disconnect() {
-    doLogs &&
-      console.log(curThreadId, `Disconnecting from thread ${this.script}`);
+    log("debug", "shutdown", () => `Disconnecting from thread ${this.script}`);
     this.disconnected = true;
     this.worker.port.postMessage({ __system: true, __close: true });
   }
@@ -1476,10 +3576,12 @@ export class SharedThread implements ThreadWorker {
    * NOTE: USE THIS WITH CAUTION SINCE IT WILL TERMINATE A THREAD WITHOUT ANY CLEANUP! THIS CAN LEAD TO DEADLOCKS, LIVELOCKS, AND OTHER ISSUES!
    */
   public sever() {
-    doLogs &&
-      console.log(curThreadId, `Disconnecting from thread ${this.script}`);
+    log("debug", "shutdown", () => `Disconnecting from thread ${this.script}`);
     this.worker.port.close();
     this.disconnected = true;
+    this.abandonPending();
+    this.markClosed();
+    this.emit("close", this.script);
     if (this.closeHandler) {
       this.closeHandler(this);
     }
@@ -1496,22 +3598,160 @@ function promiseLike(p: any) {
   );
 }
 
+function isIterator(o: any): boolean {
+  return (
+    !!o &&
+    typeof o === "object" &&
+    typeof o.next === "function" &&
+    (Symbol.asyncIterator in o || Symbol.iterator in o)
+  );
+}
+
+function responseMessage(res: any): any {
+  return res instanceof ResponseWithTransfer ||
+    res instanceof ResponseWithOptions
+    ? res.message
+    : res;
+}
+
+interface StreamCredits {
+  credits: number;
+  wake: (() => void) | null;
+}
+
+async function collectStream(iter: any): Promise<any[]> {
+  const items: any[] = [];
+  for await (const item of iter) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function pumpStream(
+  iter: any,
+  workId: string,
+  credits: StreamCredits,
+  signal: AbortSignal,
+  post: (message: any, options?: any) => void,
+): Promise<any> {
+  const onAbort = () => credits.wake && credits.wake();
+  signal.addEventListener("abort", onAbort);
+  try {
+    while (true) {
+      while (credits.credits <= 0 && !signal.aborted) {
+        log(
+          "debug",
+          "messaging",
+          "Stream out of credits, waiting",
+          undefined,
+          workId,
+        );
+        await new Promise<void>((r) => (credits.wake = r));
+        credits.wake = null;
+      }
+      signal.throwIfAborted();
+
+      const { value, done } = await iter.next();
+      if (done) {
+        return value;
+      }
+      --credits.credits;
+      if (value instanceof ResponseWithTransfer) {
+        post(
+          {
+            __system: true,
+            threadId: getThreadId(),
+            workId,
+            chunk: value.message,
+          },
+          { transfer: value.transfer },
+        );
+      } else if (value instanceof ResponseWithOptions) {
+        post(
+          {
+            __system: true,
+            threadId: getThreadId(),
+            workId,
+            chunk: value.message,
+          },
+          value.options,
+        );
+      } else {
+        post({ __system: true, threadId: getThreadId(), workId, chunk: value });
+      }
+    }
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+    if (signal.aborted && typeof iter.return === "function") {
+      // let the generator run any cleanup (e.g. finally blocks)
+      try {
+        await iter.return();
+      } catch (e) {
+        log("error", "messaging", "Error while closing stream", e, workId);
+      }
+    }
+  }
+}
+
 let threadIdleTimeout: any = null;
 let threadIdle: number = 0;
 let messagesProcessing: number = 0;
+let incRequestId: number = 0;
+// bumped by heartbeat() so the parent can tell busy threads from hung threads
+let heartbeatCounter: Int32Array | null = null;
+
+interface ParentRequests {
+  [requestId: string]: { res: (_: any) => any; rej: (_: any) => any };
+}
+
+const parentRequests: ParentRequests = {};
+
+function nextRequestId() {
+  if (crypto && crypto.randomUUID) {
+    return getThreadId() + ":" + crypto.randomUUID();
+  } else {
+    return getThreadId() + ":" + incRequestId++;
+  }
+}
+
+function settleRequest(requests: ParentRequests, data: any) {
+  const request = requests[data.requestId];
+  if (!request) {
+    log(
+      "error",
+      "messaging",
+      () => "UNKNOWN REQUEST " + data.requestId + " FROM PARENT",
+    );
+    return;
+  }
+  delete requests[data.requestId];
+  if ("rej" in data) {
+    request.rej(data.rej);
+  } else {
+    request.res(data.res);
+  }
+}
 
 /**
  * Checks if we're in a dedicated worker context
  */
 export function isDedicatedWorker(): boolean {
-  return typeof window === "undefined" && !!(self && (self as any).postMessage);
+  return (
+    typeof window === "undefined" &&
+    typeof self !== "undefined" &&
+    !!(self as any).postMessage
+  );
 }
 
 /**
  * Checks if we're in a shared worker context
  */
 export function isSharedWorker(): boolean {
-  return typeof window === "undefined" && self && !(self as any).postMessage;
+  return (
+    typeof window === "undefined" &&
+    typeof self !== "undefined" &&
+    !(self as any).postMessage
+  );
 }
 
 /**
@@ -1573,6 +3813,8 @@ export class ResponseWithTransfer<T> {
 export interface ResponseOptions {
   transfer?: TransferableFetchers;
   targetOrigin?: string;
+  /** Collects transferables from the response automatically (see {@link TransferOptions.autoTransfer}) */
+  autoTransfer?: boolean | AutoTransferOptions;
 }
 
 /**
@@ -1590,6 +3832,79 @@ export class ResponseWithOptions<T> {
   }
 }
 
+/**
+ * Sends a request to the parent thread and waits for the response (the return value of the parent's `onRequestHandler`).
+ * If the parent's handler throws, then the returned promise is rejected with the error.
+ *
+ * **ONLY USABLE FROM DEDICATED CHILD THREADS!** Shared threads should use {@link Connection.requestParent}
+ *
+ * @param request Request to send
+ * @param options postMessage options to use (e.g. transfer)
+ */
+export function requestParent<R = any>(
+  request: any,
+  options?: StructuredSerializeOptions,
+): Promise<R> {
+  if (!isDedicatedWorker()) {
+    throw new NotInWorkerThread("requestParent");
+  }
+  const requestId = nextRequestId();
+  return new Promise<R>((res, rej) => {
+    parentRequests[requestId] = { res, rej };
+    postMessage({ __system: true, requestId, request }, options);
+  });
+}
+
+/**
+ * Gets the threads spawned by the current thread which are still running.
+ * To also list threads spawned by those threads, see {@link Thread.descendants}
+ */
+export function childThreads(): Thread[] {
+  return [...childThreadExits.keys()];
+}
+
+async function listDescendants(): Promise<string[]> {
+  const ids: string[] = [];
+  for (const child of [...childThreadExits.keys()]) {
+    ids.push(child.id());
+    try {
+      ids.push(...(await child.descendants()));
+    } catch (e) {
+      // child closed while we were listing
+      log("debug", "messaging", "Could not list descendants", e);
+    }
+  }
+  return ids;
+}
+
+// browsers report workers which failed to load with a plain event, while uncaught errors (which workers survive) are ErrorEvents
+function isLoadFailure(e: any): boolean {
+  return (
+    typeof ErrorEvent !== "undefined" &&
+    e instanceof Event &&
+    !(e instanceof ErrorEvent)
+  );
+}
+
+// waits for child threads to finish closing, and kills any which take too long
+async function waitForChildThreads(timeout: number) {
+  const exits = [...childThreadExits.values()];
+  if (exits.length) {
+    await Promise.race([
+      Promise.all(exits),
+      new Promise((res) => setTimeout(res, timeout)),
+    ]);
+  }
+  for (const child of [...childThreadExits.keys()]) {
+    log(
+      "error",
+      "shutdown",
+      () => `Child thread ${child.id()} did not close in time, killing it`,
+    );
+    child.kill();
+  }
+}
+
 /**
  * Transfers ownership of a resource to the parent thread.
  *
@@ -1597,12 +3912,14 @@ export class ResponseWithOptions<T> {
  *
  * @param message Message for the transfer (usually includes how to access the transferred resource)
  * @param items Memory ownership to transfer
+ * @param options Set `autoTransfer` to also transfer everything transferable in the message (see {@link TransferOptions.autoTransfer})
  */
 export function transfer(
   message: any,
   items: Transferable | TransferableFetchers,
+  options?: Pick<TransferOptions, "autoTransfer">,
 ) {
-  if (self && !(self as any).onconnect) {
+  if (typeof self !== "undefined" && !(self as any).onconnect) {
     if (!Array.isArray(items)) {
       if (!items) {
         items = [];
@@ -1611,6 +3928,7 @@ export function transfer(
       }
     }
     postMessage({ __system: true, transfer: true, message }, {
+      ...options,
       transfer: items,
     } as any);
   } else {
@@ -1618,16 +3936,64 @@ export function transfer(
   }
 }
 
+/**
+ * Tells the parent thread that the current thread is still alive. Call it from long-running synchronous work so that
+ * a thread spawned with the `heartbeat` option (see {@link ThreadOptions.heartbeat}) isn't marked as unresponsive
+ * while it's too busy to answer pings.
+ *
+ * Heartbeats are counted in shared memory, so this does nothing when `SharedArrayBuffer` is unavailable (e.g. pages
+ * which aren't cross-origin isolated) or when the parent didn't ask for heartbeats.
+ *
+ * **ONLY USABLE FROM DEDICATED CHILD THREADS!**
+ */
+export function heartbeat() {
+  if (!isDedicatedWorker()) {
+    throw new NotInWorkerThread("heartbeat");
+  }
+  if (heartbeatCounter) {
+    Atomics.add(heartbeatCounter, 0, 1);
+  }
+}
+
 if (isDedicatedWorker()) {
   // Worker scope
 
   const oldPostMessage = self.postMessage;
+  const sendMessage = (message: any, ...args: any[]) => {
+    message = dehydrate(message, autoTransferOption(args[0]));
+    return oldPostMessage(message, ...withTransfers(args, takeTransfers()));
+  };
+  // log records skip the batcher so that records which can't be sent fail right away (and get logged locally)
+  setLogForwarder((record) => sendMessage({ __system: true, __log: record }));
+  // set up during init if the parent asked for batching
+  let batcher: MessageBatcher | null = null;
   self.postMessage = function (message: any, ...args: any[]) {
-    return oldPostMessage(dehydrate(message), ...args);
+    if (batcher) {
+      if (canBatch(args[0])) {
+        const batched = prepareBatched(message);
+        if (!batched.ports.length) {
+          batcher.push(batched.message);
+          return;
+        }
+        // ports have to be transferred, so the message is sent on its own
+        batcher.flush();
+        return oldPostMessage(
+          batched.message,
+          ...withTransfers(args, batched.ports),
+        );
+      }
+      batcher.flush();
+    }
+    return sendMessage(message, ...args);
   }.bind(self) as any;
 
   let closing = false;
   let closed = false;
+  // how long to wait for in-flight messages when closing (set by the parent's close options)
+  let drainTimeout = 1000;
+  let childTimeout = 2000;
+  const workAborts: { [workId: string]: AbortController } = {};
+  const workStreams: { [workId: string]: StreamCredits } = {};
   const oldClose = self.close;
   self.close = function () {
     // make calls to close idempotent
@@ -1635,11 +4001,22 @@ if (isDedicatedWorker()) {
       return;
     }
 
-    doLogs && console.log(curThreadId, "Closing thread");
+    log("debug", "shutdown", "Closing thread");
     closing = true;
     // notify asap that we're shutting down so the parent thread doesn't use us
     // we'll stop allowing messages after a milliseconds
     postMessage({ __system: true, __close: true });
+    for (const peer of livePeers) {
+      peer.close();
+    }
+    // children are terminated along with this thread, so start closing them now
+    // pools go first so that they don't respawn their threads
+    for (const pool of [...childPools]) {
+      pool.close();
+    }
+    for (const child of [...childThreadExits.keys()]) {
+      child.close();
+    }
 
     // microtick 1
     new Promise((res) => {
@@ -1648,35 +4025,40 @@ if (isDedicatedWorker()) {
       .then(async () => {
         // Shut down all incoming messages - we won't be allowing anything else to come through
         closed = true;
-        doLogs && console.log(curThreadId, "Attempting graceful shutdown...");
+        log("debug", "shutdown", "Attempting graceful shutdown...");
         // exclude this message from "processing" temporarily to make the waiting protocol easier to write
         // We don't want to confuse devs who are waiting for all messages to finish processing
 
-        // Wait up to 1 second for in-flight messages to close gracefully
-        let attempt = 0;
-        const maxAttempts = 10;
-        doLogs &&
-          console.log(curThreadId, "Outstanding events: ", messagesProcessing);
-        while (messagesProcessing > 0 && attempt++ < maxAttempts) {
-          doLogs &&
-            console.log(
-              curThreadId,
-              `Detected messages in-flight, pausing for 100ms while waiting for messages to complete. Attempt ${attempt}/${maxAttempts}`,
-            );
+        // Wait up to the drain timeout for in-flight messages to close gracefully
+        const deadline = Date.now() + drainTimeout;
+        log(
+          "debug",
+          "shutdown",
+          () => "Outstanding events: " + messagesProcessing,
+        );
+        while (messagesProcessing > 0 && Date.now() < deadline) {
+          const wait = Math.min(100, deadline - Date.now());
+          log(
+            "debug",
+            "shutdown",
+            () =>
+              `Detected messages in-flight, pausing for ${wait}ms while waiting for messages to complete`,
+          );
           await new Promise((res) => {
-            setTimeout(() => res(null), 100);
+            setTimeout(() => res(null), wait);
           });
         }
 
         if (messagesProcessing > 0) {
-          console.error(
-            curThreadId,
+          log(
+            "error",
+            "shutdown",
             `Failed to wait for in-flight messages to finish! Potential deadlock! Force killing thread!`,
           );
         }
 
         if ((self as any).onclose) {
-          doLogs && console.log(curThreadId, "Calling onclose");
+          log("debug", "shutdown", "Calling onclose");
           try {
             const r = (self as any).onclose();
 
@@ -1684,16 +4066,21 @@ if (isDedicatedWorker()) {
               await r;
             }
           } catch (e) {
-            console.error(
-              curThreadId,
+            log(
+              "error",
+              "shutdown",
               "ERROR IN CUSTOM onclose! IGNORING AND CLOSING",
               e,
             );
           }
         }
+
+        await waitForChildThreads(childTimeout);
       })
       .finally(() => {
-        console.log(curThreadId, "Closed thread");
+        log("info", "shutdown", "Closed thread");
+        postMessage({ __system: true, __closed: true });
+        batcher?.flush();
         oldClose();
       });
   };
@@ -1709,50 +4096,76 @@ if (isDedicatedWorker()) {
   (self as any).curThread = curThread;
   (self as any).transfer = transfer;
   (self as any).sendError = sendError;
-  self.onmessage = async (e: MessageEvent) => {
+  (self as any).heartbeat = heartbeat;
+  const onMessage = async (e: MessageEvent) => {
+    // pings are answered right away and don't count as activity for the idle timeout
+    if (
+      e.data &&
+      typeof e.data === "object" &&
+      e.data.__system &&
+      "__ping" in e.data
+    ) {
+      if (!closed) {
+        postMessage({ __system: true, __pong: e.data.__ping });
+      }
+      return;
+    }
+
     if (closed) {
-      console.error(
-        curThreadId,
+      log(
+        "error",
+        "messaging",
         "Thread is shutting down but receiving messages!",
       );
       sendError(new ThreadClosedError());
     }
 
     if (threadIdleTimeout) {
-      doLogs &&
-        console.log(
-          curThreadId,
-          "Pausing idle timer for thread " + curThreadId,
-        );
+      log(
+        "debug",
+        "messaging",
+        () => "Pausing idle timer for thread " + curThreadId,
+      );
       clearTimeout(threadIdleTimeout);
       threadIdleTimeout = null;
     }
     ++messagesProcessing;
 
-    doLogs &&
-      console.log(
-        curThreadId,
-        "Received message",
-        e,
-        `Num messages active: ${messagesProcessing}`,
-      );
+    log(
+      "debug",
+      "messaging",
+      () => `Received message. Num messages active: ${messagesProcessing}`,
+      e.data,
+    );
 
     try {
+      // hydration errors are thrown from inside the handler so they are sent back to the parent
+      let hydrationError: unknown = undefined;
       try {
-        e = { ...e, data: hydrate(e.data) };
+        e = { ...e, data: hydrateMessage(e.data) };
       } catch (err) {
-        console.error("HYDRATION FAILED!", err, e.data);
-        e = { ...e, data: hydrate(e.data) };
+        log("error", "hydration", "HYDRATION FAILED!", {
+          error: err,
+          message: e.data,
+        });
+        hydrationError = err;
       }
 
-      doLogs && console.log(curThreadId, "Hydrated message", e);
+      log("debug", "hydration", "Hydrated message", e.data);
 
+      // recorded for work sent with a trace context, and sent back with the result
+      let workSpan: Span | null = null;
+      // when the current work started, so the time it took can be sent back with the result
+      let workStart: number | null = null;
       try {
+        if (hydrationError !== undefined) {
+          throw hydrationError;
+        }
         let res: any = undefined;
 
         if (typeof e.data === "object" || typeof e.data === "function") {
           if ("__system" in e.data && e.data.__system) {
-            doLogs && console.log(curThreadId, "Message is a system event!");
+            log("debug", "messaging", "Message is a system event!");
             if ("share" in e.data && "shareId" in e.data) {
               if ((self as any).onshare) {
                 res = (self as any).onshare({
@@ -1760,11 +4173,11 @@ if (isDedicatedWorker()) {
                   message: e.data.message,
                 });
               } else if ((self as any).onevent) {
-                doLogs &&
-                  console.log(
-                    curThreadId,
-                    "onshare not found, falling back to onevent",
-                  );
+                log(
+                  "debug",
+                  "messaging",
+                  "onshare not found, falling back to onevent",
+                );
                 res = (self as any).onevent(e);
               }
 
@@ -1775,15 +4188,24 @@ if (isDedicatedWorker()) {
                 __system: true,
                 __shared: e.data.shareId,
               });
+            } else if ("linkId" in e.data && "link" in e.data) {
+              const peer = new PeerThread(e.data.link, e.data.peerId);
+              if ((self as any).onlink) {
+                res = (self as any).onlink(peer);
+              }
+              if (promiseLike(res)) {
+                await res;
+              }
+              postMessage({ __system: true, __linked: e.data.linkId });
             } else if ("transfer" in e.data) {
               if ((self as any).ontransfer) {
                 res = (self as any).ontransfer(e.data.message);
               } else if ((self as any).onevent) {
-                doLogs &&
-                  console.log(
-                    curThreadId,
-                    "ontransfer not found, falling back to onevent",
-                  );
+                log(
+                  "debug",
+                  "messaging",
+                  "ontransfer not found, falling back to onevent",
+                );
                 res = (self as any).onevent(e);
               }
 
@@ -1794,21 +4216,81 @@ if (isDedicatedWorker()) {
                 __system: true,
                 __transferd: e.data.transfer,
               });
+            } else if ("workId" in e.data && "__descendants" in e.data) {
+              postMessage({
+                __system: true,
+                threadId: getThreadId(),
+                workId: e.data.workId,
+                res: await listDescendants(),
+              });
             } else if ("workId" in e.data && "work" in e.data) {
-              if ((self as any).onwork) {
-                res = (self as any).onwork(e.data.work);
-              } else if ((self as any).onevent) {
-                doLogs &&
-                  console.log(
-                    curThreadId,
+              workStart = performance.now();
+              if (e.data.trace) {
+                workSpan = createSpan(
+                  "worker.execute",
+                  { workId: e.data.workId },
+                  e.data.trace,
+                );
+              }
+              checkContract(currentContract(), "request", e.data.work);
+              const abort = new AbortController();
+              workAborts[e.data.workId] = abort;
+              try {
+                if ((self as any).onwork) {
+                  const workId = e.data.workId;
+                  const ctx: WorkContext = {
+                    workId,
+                    signal: abort.signal,
+                    reportProgress: (progress: any) => {
+                      if (!abort.signal.aborted) {
+                        postMessage({ __system: true, workId, progress });
+                      }
+                    },
+                  };
+                  res = (self as any).onwork(e.data.work, ctx);
+                } else if ((self as any).onevent) {
+                  log(
+                    "debug",
+                    "messaging",
                     "onwork not found, falling back to onevent",
                   );
-                res = (self as any).onevent(e);
+                  res = (self as any).onevent(e);
+                }
+                if (promiseLike(res)) {
+                  res = await res;
+                }
+                if ("stream" in e.data) {
+                  const credits: StreamCredits = {
+                    credits: e.data.stream,
+                    wake: null,
+                  };
+                  workStreams[e.data.workId] = credits;
+                  res = await pumpStream(
+                    isIterator(res) ? res : [res][Symbol.iterator](),
+                    e.data.workId,
+                    credits,
+                    abort.signal,
+                    postMessage,
+                  );
+                } else if (isIterator(res)) {
+                  res = await collectStream(res);
+                }
+              } finally {
+                delete workAborts[e.data.workId];
+                delete workStreams[e.data.workId];
               }
-              if (promiseLike(res)) {
-                res = await res;
+              // parent already gave up on the work, so let it know we're done without a result
+              abort.signal.throwIfAborted();
+              if (!("stream" in e.data)) {
+                checkContract(
+                  currentContract(),
+                  "response",
+                  responseMessage(res),
+                );
               }
 
+              const span = workSpan && finishSpan(workSpan);
+              const duration = performance.now() - workStart;
               if (res instanceof ResponseWithTransfer) {
                 postMessage(
                   {
@@ -1816,6 +4298,8 @@ if (isDedicatedWorker()) {
                     threadId: getThreadId(),
                     workId: e.data.workId,
                     res: res.message,
+                    duration,
+                    ...(span && { span }),
                   },
                   { transfer: res.transfer },
                 );
@@ -1826,6 +4310,8 @@ if (isDedicatedWorker()) {
                     threadId: getThreadId(),
                     workId: e.data.workId,
                     res: res.message,
+                    duration,
+                    ...(span && { span }),
                   },
                   res.options,
                 );
@@ -1835,18 +4321,21 @@ if (isDedicatedWorker()) {
                   threadId: getThreadId(),
                   workId: e.data.workId,
                   res: res,
+                  duration,
+                  ...(span && { span }),
                 });
               }
             } else if ("threadId" in e.data && "init" in e.data) {
               setThreadId(e.data.threadId);
+              checkContract(currentContract(), "init", e.data.init);
               if ((self as any).oninit) {
                 (self as any).oninit(e.data.init);
               } else {
-                doLogs &&
-                  console.log(
-                    curThreadId,
-                    "oninit not found, skipping custom initialization",
-                  );
+                log(
+                  "debug",
+                  "spawn",
+                  "oninit not found, skipping custom initialization",
+                );
               }
 
               if (promiseLike(res)) {
@@ -1854,30 +4343,67 @@ if (isDedicatedWorker()) {
               }
 
               if ("closeWhenIdle" in e.data && isFinite(e.data.closeWhenIdle)) {
-                doLogs &&
-                  console.log(
-                    curThreadId,
-                    "idle timeout found! Creating idle timeout",
-                  );
+                log(
+                  "debug",
+                  "spawn",
+                  "idle timeout found! Creating idle timeout",
+                );
                 threadIdle = e.data.closeWhenIdle;
               }
+              if ("heartbeat" in e.data && e.data.heartbeat) {
+                heartbeatCounter = e.data.heartbeat;
+              }
+              if (typeof e.data.batch === "number") {
+                // batched messages are already dehydrated
+                batcher = new MessageBatcher(e.data.batch, (batch) =>
+                  oldPostMessage({ __system: true, __batch: batch }),
+                );
+              }
               postMessage({ __system: true, __initd: true });
-              doLogs && console.log(curThreadId, "Thread ready!");
+              log("debug", "spawn", "Thread ready!");
+            } else if (
+              "requestId" in e.data &&
+              ("res" in e.data || "rej" in e.data)
+            ) {
+              settleRequest(parentRequests, e.data);
+            } else if ("__cancel" in e.data) {
+              log(
+                "debug",
+                "messaging",
+                "Cancelling work",
+                undefined,
+                e.data.__cancel,
+              );
+              workAborts[e.data.__cancel]?.abort();
+            } else if ("__credit" in e.data) {
+              const credits = workStreams[e.data.__credit];
+              if (credits) {
+                credits.credits += e.data.n;
+                credits.wake && credits.wake();
+              }
             } else if ("__close" in e.data) {
+              if (typeof e.data.drainTimeout === "number") {
+                drainTimeout = e.data.drainTimeout;
+              }
+              if (typeof e.data.childTimeout === "number") {
+                childTimeout = e.data.childTimeout;
+              }
               self.close();
             } else {
-              console.error("BAD INCOMING MESSAGE!", e.data);
+              log("error", "messaging", "BAD INCOMING MESSAGE!", e.data);
               throw new BadMessageError();
             }
           } else if ((self as any).onevent) {
-            doLogs && console.log(curThreadId, "Message is a custom event!");
+            log("debug", "messaging", "Message is a custom event!");
+            checkContract(currentContract(), "event", e.data);
             const res = (self as any).onevent(e);
             if (promiseLike(res)) {
               await res;
             }
           }
         } else if ((self as any).onevent) {
-          doLogs && console.log(curThreadId, "Message is a custom event!");
+          log("debug", "messaging", "Message is a custom event!");
+          checkContract(currentContract(), "event", e.data);
           const res = (self as any).onevent(e);
           if (promiseLike(res)) {
             await res;
@@ -1891,6 +4417,10 @@ if (isDedicatedWorker()) {
               threadId: getThreadId(),
               workId: e.data.workId,
               rej: err,
+              ...(workStart !== null && {
+                duration: performance.now() - workStart,
+              }),
+              ...(workSpan && { span: finishSpan(workSpan, err) }),
             });
           } else if ("transfer" in e.data) {
             postMessage({
@@ -1914,6 +4444,13 @@ if (isDedicatedWorker()) {
               __error: err,
             });
             self.close();
+          } else if ("linkId" in e.data) {
+            postMessage({
+              __system: true,
+              threadId: getThreadId(),
+              __linked: e.data.linkId,
+              rej: err,
+            });
           } else if ("__close" in e.data) {
             sendError(err);
             self.close();
@@ -1929,6 +4466,7 @@ if (isDedicatedWorker()) {
       }
     }
   };
+  self.onmessage = (e: MessageEvent) => unbatch(e, onMessage);
 }
 
 /**
@@ -1945,6 +4483,9 @@ if (isDedicatedWorker()) {
 export class Connection {
   private p: MessagePort;
   private messagesProcessing: number = 0;
+  private workAborts: { [workId: string]: AbortController } = {};
+  private workStreams: { [workId: string]: StreamCredits } = {};
+  private requests: ParentRequests = {};
   public context: any = {};
   private closed: boolean = false;
 
@@ -1958,54 +4499,64 @@ export class Connection {
 
     const oldPostMessage = this.p.postMessage.bind(this.p);
     this.p.postMessage = function (message: any, ...args: any[]) {
-      return oldPostMessage(dehydrate(message), ...args);
+      message = dehydrate(message, autoTransferOption(args[0]));
+      return oldPostMessage(message, ...withTransfers(args, takeTransfers()));
     }.bind(this.p) as any;
 
     this.p.onmessage = async (e: MessageEvent) => {
       if (this.closed) {
-        console.error(
-          curThreadId,
+        log(
+          "error",
+          "messaging",
           "Thread is shutting down but receiving messages!",
         );
         this.sendError(new ThreadClosedError());
       }
 
       if (threadIdleTimeout) {
-        doLogs &&
-          console.log(
-            curThreadId,
-            "Pausing idle timer for thread " + curThreadId,
-          );
+        log(
+          "debug",
+          "messaging",
+          () => "Pausing idle timer for thread " + curThreadId,
+        );
         clearTimeout(threadIdleTimeout);
         threadIdleTimeout = null;
       }
       ++this.messagesProcessing;
       ++messagesProcessing;
 
-      doLogs &&
-        console.log(
-          curThreadId,
-          "Received message",
-          e,
-          `Num messages active: ${this.messagesProcessing}`,
-        );
+      log(
+        "debug",
+        "messaging",
+        () =>
+          `Received message. Num messages active: ${this.messagesProcessing}`,
+        e.data,
+      );
 
       try {
+        // hydration errors are thrown from inside the handler so they are sent back to the other thread
+        let hydrationError: unknown = undefined;
         try {
-          e = { ...e, data: hydrate(e.data) };
+          e = { ...e, data: hydrateMessage(e.data) };
         } catch (err) {
-          console.error("HYDRATION FAILED!", err, e.data);
-          e = { ...e, data: hydrate(e.data) };
+          log("error", "hydration", "HYDRATION FAILED!", {
+            error: err,
+            message: e.data,
+          });
+          hydrationError = err;
         }
 
-        doLogs && console.log(curThreadId, "Hydrated message", e);
+        log("debug", "hydration", "Hydrated message", e.data);
 
         try {
+          if (hydrationError !== undefined) {
+            throw hydrationError;
+          }
           let res: any = undefined;
 
           if (typeof e.data === "object" || typeof e.data === "function") {
             if ("__system" in e.data && e.data.__system) {
-              doLogs && console.log(curThreadId, "Message is a system event!");
+              log("debug", "messaging", "Message is a system event!");
               if ("share" in e.data && "shareId" in e.data) {
                 if ((self as any).onshare) {
                   res = (self as any).onshare(this, {
@@ -2013,11 +4564,11 @@ export class Connection {
                     message: e.data.message,
                   });
                 } else if ((self as any).onevent) {
-                  doLogs &&
-                    console.log(
-                      curThreadId,
-                      "onshare not found, falling back to onevent",
-                    );
+                  log(
+                    "debug",
+                    "messaging",
+                    "onshare not found, falling back to onevent",
+                  );
                   res = (self as any).onevent(this, e);
                 }
 
@@ -2032,11 +4583,11 @@ export class Connection {
                 if ((self as any).ontransfer) {
                   res = (self as any).ontransfer(this, e.data.message);
                 } else if ((self as any).onevent) {
-                  doLogs &&
-                    console.log(
-                      curThreadId,
-                      "ontransfer not found, falling back to onevent",
-                    );
+                  log(
+                    "debug",
+                    "messaging",
+                    "ontransfer not found, falling back to onevent",
+                  );
                   res = (self as any).onevent(this, e);
                 }
 
@@ -2048,18 +4599,66 @@ export class Connection {
                   __transferd: e.data.transfer,
                 });
               } else if ("workId" in e.data && "work" in e.data) {
-                if ((self as any).onwork) {
-                  res = (self as any).onwork(this, e.data.work);
-                } else if ((self as any).onevent) {
-                  doLogs &&
-                    console.log(
-                      curThreadId,
+                checkContract(currentContract(), "request", e.data.work);
+                const abort = new AbortController();
+                this.workAborts[e.data.workId] = abort;
+                try {
+                  if ((self as any).onwork) {
+                    const workId = e.data.workId;
+                    const ctx: WorkContext = {
+                      workId,
+                      signal: abort.signal,
+                      reportProgress: (progress: any) => {
+                        if (!abort.signal.aborted) {
+                          this.p.postMessage({
+                            __system: true,
+                            workId,
+                            progress,
+                          });
+                        }
+                      },
+                    };
+                    res = (self as any).onwork(this, e.data.work, ctx);
+                  } else if ((self as any).onevent) {
+                    log(
+                      "debug",
+                      "messaging",
                       "onwork not found, falling back to onevent",
                     );
-                  res = (self as any).onevent(this, e);
+                    res = (self as any).onevent(this, e);
+                  }
+                  if (promiseLike(res)) {
+                    res = await res;
+                  }
+                  if ("stream" in e.data) {
+                    const credits: StreamCredits = {
+                      credits: e.data.stream,
+                      wake: null,
+                    };
+                    this.workStreams[e.data.workId] = credits;
+                    res = await pumpStream(
+                      isIterator(res) ? res : [res][Symbol.iterator](),
+                      e.data.workId,
+                      credits,
+                      abort.signal,
+                      (message, options) =>
+                        this.p.postMessage(message, options),
+                    );
+                  } else if (isIterator(res)) {
+                    res = await collectStream(res);
+                  }
+                } finally {
+                  delete this.workAborts[e.data.workId];
+                  delete this.workStreams[e.data.workId];
                 }
-                if (promiseLike(res)) {
-                  res = await res;
+                // parent already gave up on the work, so let it know we're done without a result
+                abort.signal.throwIfAborted();
+                if (!("stream" in e.data)) {
+                  checkContract(
+                    currentContract(),
+                    "response",
+                    responseMessage(res),
+                  );
                 }
 
                 if (res instanceof ResponseWithTransfer) {
@@ -2092,14 +4691,15 @@ export class Connection {
                 }
               } else if ("threadId" in e.data && "init" in e.data) {
                 setThreadId(e.data.threadId);
+                checkContract(currentContract(), "init", e.data.init);
                 if ((self as any).oninit) {
                   (self as any).oninit(this, e.data.init);
                 } else {
-                  doLogs &&
-                    console.log(
-                      curThreadId,
-                      "oninit not found, skipping custom initialization",
-                    );
+                  log(
+                    "debug",
+                    "spawn",
+                    "oninit not found, skipping custom initialization",
+                  );
                 }
 
                 if (promiseLike(res)) {
@@ -2110,33 +4710,55 @@ export class Connection {
                   "closeWhenIdle" in e.data &&
                   isFinite(e.data.closeWhenIdle)
                 ) {
-                  doLogs &&
-                    console.log(
-                      curThreadId,
-                      "idle timeout found! Creating idle timeout",
-                    );
+                  log(
+                    "debug",
+                    "spawn",
+                    "idle timeout found! Creating idle timeout",
+                  );
                   threadIdle = e.data.closeWhenIdle;
                 }
                 this.p.postMessage({
                   __system: true,
                   __initd: true,
                 });
-                doLogs && console.log(curThreadId, "Thread ready!");
+                log("debug", "spawn", "Thread ready!");
+              } else if (
+                "requestId" in e.data &&
+                ("res" in e.data || "rej" in e.data)
+              ) {
+                settleRequest(this.requests, e.data);
+              } else if ("__cancel" in e.data) {
+                log(
+                  "debug",
+                  "messaging",
+                  "Cancelling work",
+                  undefined,
+                  e.data.__cancel,
+                );
+                this.workAborts[e.data.__cancel]?.abort();
+              } else if ("__credit" in e.data) {
+                const credits = this.workStreams[e.data.__credit];
+                if (credits) {
+                  credits.credits += e.data.n;
+                  credits.wake && credits.wake();
+                }
               } else if ("__close" in e.data) {
-                this.close();
+                this.close(e.data.drainTimeout);
               } else {
-                console.error("BAD INCOMING MESSAGE!", e.data);
+                log("error", "messaging", "BAD INCOMING MESSAGE!", e.data);
                 throw new BadMessageError();
               }
             } else if ((self as any).onevent) {
-              doLogs && console.log(curThreadId, "Message is a custom event!");
+              log("debug", "messaging", "Message is a custom event!");
+              checkContract(currentContract(), "event", e.data);
               const res = (self as any).onevent(this, e);
               if (promiseLike(res)) {
                 await res;
               }
             }
           } else if ((self as any).onevent) {
-            doLogs && console.log(curThreadId, "Message is a custom event!");
+            log("debug", "messaging", "Message is a custom event!");
+            checkContract(currentContract(), "event", e.data);
             const res = (self as any).onevent(this, e);
             if (promiseLike(res)) {
               await res;
@@ -2223,12 +4845,34 @@ export class Connection {
     this.p.postMessage(msg, options);
   }
 
+  /**
+   * Sends a request to the connected thread and waits for the response (the return value of its `onRequestHandler`).
+   * If the connected thread's handler throws, then the returned promise is rejected with the error.
+   * @param request Request to send
+   * @param options postMessage options to use (e.g. transfer)
+   */
+  public requestParent<R = any>(
+    request: any,
+    options?: StructuredSerializeOptions,
+  ): Promise<R> {
+    const requestId = nextRequestId();
+    return new Promise<R>((res, rej) => {
+      this.requests[requestId] = { res, rej };
+      this.p.postMessage({ __system: true, requestId, request }, options);
+    });
+  }
+
   /**
    * Transfers ownership of some object to the connected therad
    * @param message Message to send (should include a way to reference transferred object)
    * @param items Objects to transfer ownership of
+   * @param options Set `autoTransfer` to also transfer everything transferable in the message (see {@link TransferOptions.autoTransfer})
    */
-  public transfer(message: any, items: Transferable | TransferableFetchers) {
+  public transfer(
+    message: any,
+    items: Transferable | TransferableFetchers,
+    options?: Pick<TransferOptions, "autoTransfer">,
+  ) {
     if (!Array.isArray(items)) {
       if (!items) {
         items = [];
@@ -2237,6 +4881,7 @@ export class Connection {
       }
     }
     this.p.postMessage({ __system: true, transfer: true, message }, {
+      ...options,
       transfer: items,
     } as any);
   }
@@ -2251,23 +4896,31 @@ export class Connection {
 
   /**
    * Closes the connection and disconnects from the connected thread
+   * @param drainTimeout How long (in milliseconds) to wait for the messages being processed to finish. Defaults to 1000
    */
-  public close() {
+  public close(drainTimeout: number = 1000) {
+    if (this.closed) {
+      return;
+    }
     this.closed = true;
     new Promise(async (resolve) => {
-      for (let attempt = 0; attempt < 10; ++attempt) {
-        if (this.numMessagesProcessing() > 0) {
-          await new Promise((r) => setTimeout(r, 100));
-        } else {
-          break;
-        }
+      const deadline = Date.now() + drainTimeout;
+      while (this.numMessagesProcessing() > 0 && Date.now() < deadline) {
+        await new Promise((r) =>
+          setTimeout(r, Math.min(100, deadline - Date.now())),
+        );
       }
 
       if (this.numMessagesProcessing() > 0) {
-        console.error(
-          "Port not shut down gracefully after 1 second, forcing shutdown",
+        log(
+          "error",
+          "shutdown",
+          () =>
+            `Port not shut down gracefully after ${drainTimeout}ms, forcing shutdown`,
         );
       }
+      // lets the other side know the connection is closed (see SharedThread.close)
+      this.p.postMessage({ __system: true, __closed: true });
       this.p.close();
       resolve(null);
     });
@@ -2285,3 +4938,439 @@ if (isSharedWorker()) {
     new Connection(event.ports[0]);
   };
 }
+
+const livePeers: Set<PeerThread> = new Set<PeerThread>();
+
+/**
+ * Handle for a thread linked directly to the current thread (see {@link Thread.link}).
+ *
+ * Peer handles send messages over a dedicated MessagePort, so traffic between the two threads doesn't go through the
+ * main thread. Work, shares and events sent with a peer handle are given to the other thread's `onwork`, `onshare`
+ * and `onevent` handlers, just like messages from the parent thread.
+ *
+ * Peer handles can be sent to another thread as part of a message (e.g. inside a work payload), and the receiving
+ * thread gets a working handle for the same peer. The sending thread can no longer use the handle once sent, and any
+ * work it had pending on the handle is rejected with a {@link ThreadClosedError}.
+ */
+export class PeerThread implements ThreadWorker {
+  public static readonly HYDRATION_KEY = "__PEER_THREAD";
+  private port: MessagePort;
+  private peerId: string;
+  private incWorkId: number = 0;
+  private pending: number = 0;
+  private closed: boolean = false;
+  private handler: ((_: any) => any) | undefined;
+  private workQueue: {
+    [id: string]: {
+      res: (_: any) => any;
+      rej: (_: any) => any;
+      progress?: (_: any) => any;
+      callSite?: Error;
+    };
+  } = {};
+  private workAborts: { [workId: string]: AbortController } = {};
+
+  /**
+   * Creates a handle for a linked thread. You will not need to call this directly as handles are made by {@link Thread.link}
+   * @param port Port connected to the other thread
+   * @param peerId Thread id of the other thread
+   */
+  constructor(port: MessagePort, peerId: string) {
+    this.port = port;
+    this.peerId = peerId;
+    this.port.onmessage = (e: MessageEvent) => this.onMessage(e);
+    livePeers.add(this);
+  }
+
+  /**
+   * Gets the thread id of the linked thread
+   */
+  public id(): string {
+    return this.peerId;
+  }
+
+  /**
+   * Gets the number of pending requests sent to the linked thread
+   */
+  public numPendingRequests(): number {
+    return this.pending;
+  }
+
+  /**
+   * Set the handler for receiving custom events from the linked thread. If not set, the global `onevent` handler is used
+   * @param h Handler for when an event is sent from the linked thread
+   */
+  public setOnEvent(h: ((_: any) => any) | undefined) {
+    this.handler = h;
+  }
+
+  /**
+   * Sends work to the linked thread
+   * @param work Work to send
+   * @param options Options for sending work (e.g. transfer data, abort signal, timeout)
+   * @return Promise with the result object from doing the work
+   */
+  public sendWork<R = any>(work: any, options?: SendWorkOptions): Promise<R> {
+    if (this.closed) {
+      return Promise.reject(new ThreadClosedError());
+    }
+    const { signal, timeout, onProgress, trace, priority, ...postOptions } =
+      options || {};
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    const workId = this.nextWorkId();
+    // captured so that errors from the thread include the caller's stack
+    const callSite = captureCallSite();
+    log(
+      "debug",
+      "messaging",
+      () => `Sending work ${workId} to linked thread ${this.peerId}`,
+      work,
+      workId,
+    );
+    ++this.pending;
+    return new Promise<R>((res, rej) => {
+      const onAbort = () => this.cancelWork(workId, signal!.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      let timer: any = null;
+      if (timeout && timeout > 0 && isFinite(timeout)) {
+        timer = setTimeout(
+          () => this.cancelWork(workId, new WorkTimeoutError(timeout)),
+          timeout,
+        );
+      }
+      const cleanup = () => {
+        signal?.removeEventListener("abort", onAbort);
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+      };
+      this.workQueue[workId] = {
+        res: (v) => {
+          cleanup();
+          res(v);
+        },
+        rej: (err) => {
+          cleanup();
+          rej(err);
+        },
+        progress: onProgress,
+        callSite,
+      };
+      try {
+        this.post({ __system: true, workId, work }, postOptions);
+      } catch (e) {
+        // the work never reached the thread, so nothing will answer it
+        const { rej: fail } = this.workQueue[workId];
+        delete this.workQueue[workId];
+        --this.pending;
+        fail(e);
+      }
+    });
+  }
+
+  /**
+   * Shares an item with the linked thread (given to its `onshare` handler)
+   * @param item Item to share
+   * @param message Extra information to send with the item
+   * @param options postMessage options to use
+   */
+  public share(
+    item: any,
+    message?: any,
+    options?: TransferOptions,
+  ): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new ThreadClosedError());
+    }
+    const shareId = this.nextWorkId();
+    ++this.pending;
+    const promise = new Promise((res, rej) => {
+      this.workQueue[shareId] = { res, rej };
+    });
+    if (typeof message != "undefined") {
+      this.post({ __system: true, shareId, share: item, message }, options);
+    } else {
+      this.post({ __system: true, shareId, share: item }, options);
+    }
+    return promise as Promise<void>;
+  }
+
+  /**
+   * Send a custom event to the linked thread
+   * @param event Event to send
+   * @param options Options for sending an event
+   */
+  public sendEvent(event: any, options?: StructuredSerializeOptions): void {
+    if (this.closed) {
+      throw new ThreadClosedError();
+    }
+    this.post(event, options);
+  }
+
+  /**
+   * Creates a proxy for calling methods and reading properties of an object exposed in the linked thread with {@link expose}
+   * @param options Options used for every call made through the proxy (e.g. timeout)
+   */
+  public proxy<T>(options?: ProxyOptions): RemoteObject<T> {
+    return makeProxy<T>(this, options);
+  }
+
+  /**
+   * Closes the link. Pending work on both sides of the link is rejected with a {@link ThreadClosedError}
+   */
+  public close() {
+    if (this.closed) {
+      return;
+    }
+    this.post({ __system: true, __close: true });
+    this.port.close();
+    this.disconnect();
+  }
+
+  /**
+   * Moves the handle's port into a message so that another thread can use it
+   * @param peer Handle to dehydrate
+   */
+  public static dehydrate(peer: PeerThread): {
+    port: MessagePort;
+    peerId: string;
+  } {
+    peer.port.onmessage = null;
+    peer.disconnect();
+    dehydratedTransfers.push(peer.port);
+    return { port: peer.port, peerId: peer.peerId };
+  }
+
+  /**
+   * Creates a handle from a port received in a message
+   * @param value Dehydrated handle
+   */
+  public static hydrate(value: {
+    port: MessagePort;
+    peerId: string;
+  }): PeerThread {
+    return new PeerThread(value.port, value.peerId);
+  }
+
+  private post(message: any, options?: TransferOptions | ResponseOptions) {
+    message = dehydrate(message, options?.autoTransfer);
+    const ports = takeTransfers();
+
+    // responses may list functions which find the transferables in the dehydrated message
+    if (options && options.transfer) {
+      for (let i = 0; i < options.transfer.length; ++i) {
+        if (isTransferable(options.transfer[i])) {
+          continue;
+        }
+
+        const func = options.transfer[i] as TransferableFunction;
+        let t = func(message);
+        if (!Array.isArray(t)) {
+          options.transfer.splice(i, 1, t);
+        } else {
+          options.transfer.splice(i, 1, ...t);
+        }
+      }
+    }
+    this.port.postMessage(message, ...withTransfers([options], ports));
+  }
+
+  private nextWorkId() {
+    if (crypto && crypto.randomUUID) {
+      return getThreadId() + ":" + crypto.randomUUID();
+    } else {
+      return getThreadId() + ":" + this.incWorkId++;
+    }
+  }
+
+  private cancelWork(workId: string, reason: any) {
+    if (!this.workQueue.hasOwnProperty(workId)) {
+      return;
+    }
+    const { rej } = this.workQueue[workId];
+    delete this.workQueue[workId];
+    --this.pending;
+    this.post({ __system: true, __cancel: workId });
+    rej(reason);
+  }
+
+  private settle(id: string, data: any) {
+    const work = this.workQueue[id];
+    if (!work) {
+      // late response for cancelled work
+      return;
+    }
+    delete this.workQueue[id];
+    --this.pending;
+    if (data.hasOwnProperty("rej")) {
+      work.rej(stitchStack(data.rej, work.callSite, this.peerId));
+    } else {
+      work.res(data.res);
+    }
+  }
+
+  private disconnect() {
+    this.closed = true;
+    livePeers.delete(this);
+    for (const abort of Object.values(this.workAborts)) {
+      abort.abort(new ThreadClosedError());
+    }
+    const pending = Object.values(this.workQueue);
+    this.workQueue = {};
+    this.pending = 0;
+    for (const { rej } of pending) {
+      rej(new ThreadClosedError());
+    }
+  }
+
+  // shared workers pass the handle as the first argument, like they do with connections
+  private callHandler(name: string, ...args: any[]) {
+    if (isSharedWorker()) {
+      return (self as any)[name](this, ...args);
+    }
+    return (self as any)[name](...args);
+  }
+
+  private async onMessage(e: MessageEvent) {
+    if (threadIdleTimeout) {
+      clearTimeout(threadIdleTimeout);
+      threadIdleTimeout = null;
+    }
+    ++messagesProcessing;
+    try {
+      log(
+        "debug",
+        "messaging",
+        () => "Received message from linked thread " + this.peerId,
+        e.data,
+      );
+      try {
+        e = { ...e, data: hydrateMessage(e.data) } as MessageEvent;
+      } catch (err) {
+        // let the other thread know its work couldn't be received
+        if (e.data?.__system && "workId" in e.data && "work" in e.data) {
+          this.post({ __system: true, workId: e.data.workId, rej: err });
+          return;
+        }
+        throw err;
+      }
+      if (
+        !e.data ||
+        typeof e.data !== "object" ||
+        !("__system" in e.data) ||
+        !e.data.__system
+      ) {
+        if (this.handler) {
+          await this.handler(e);
+        } else if ((self as any).onevent) {
+          checkContract(currentContract(), "event", e.data);
+          await this.callHandler("onevent", e);
+        }
+      } else if ("workId" in e.data && "work" in e.data) {
+        await this.runWork(e);
+      } else if ("workId" in e.data && ("res" in e.data || "rej" in e.data)) {
+        this.settle(e.data.workId, e.data);
+      } else if ("workId" in e.data && "progress" in e.data) {
+        this.workQueue[e.data.workId]?.progress?.(e.data.progress);
+      } else if ("share" in e.data && "shareId" in e.data) {
+        try {
+          if ((self as any).onshare) {
+            await this.callHandler("onshare", {
+              share: e.data.share,
+              message: e.data.message,
+            });
+          } else if ((self as any).onevent) {
+            await this.callHandler("onevent", e);
+          }
+          this.post({ __system: true, __shared: e.data.shareId });
+        } catch (err) {
+          this.post({ __system: true, __shared: e.data.shareId, rej: err });
+        }
+      } else if ("__shared" in e.data) {
+        this.settle(e.data.__shared, e.data);
+      } else if ("__cancel" in e.data) {
+        this.workAborts[e.data.__cancel]?.abort();
+      } else if ("__close" in e.data) {
+        log(
+          "debug",
+          "shutdown",
+          () => "Linked thread " + this.peerId + " closed",
+        );
+        this.disconnect();
+      } else if ("__error" in e.data) {
+        log(
+          "error",
+          "messaging",
+          () => `Received error from linked thread ${this.peerId}!`,
+          e.data.__error,
+        );
+      } else {
+        log("error", "messaging", "BAD INCOMING MESSAGE!", e.data);
+      }
+    } catch (err) {
+      // sendError only reaches the parent of a dedicated worker, so report it to the linked thread
+      if (!this.closed) {
+        this.post({ __system: true, __error: err });
+      }
+    } finally {
+      --messagesProcessing;
+      if (messagesProcessing === 0 && threadIdle > 0 && isFinite(threadIdle)) {
+        threadIdleTimeout = setTimeout(() => self.close(), threadIdle);
+      }
+    }
+  }
+
+  private async runWork(e: MessageEvent) {
+    const workId = e.data.workId;
+    const abort = new AbortController();
+    this.workAborts[workId] = abort;
+    try {
+      checkContract(currentContract(), "request", e.data.work);
+      let res: any = undefined;
+      if ((self as any).onwork) {
+        const ctx: WorkContext = {
+          workId,
+          signal: abort.signal,
+          reportProgress: (progress: any) => {
+            if (!abort.signal.aborted) {
+              this.post({ __system: true, workId, progress });
+            }
+          },
+        };
+        res = this.callHandler("onwork", e.data.work, ctx);
+      } else if ((self as any).onevent) {
+        res = this.callHandler("onevent", e);
+      }
+      if (promiseLike(res)) {
+        res = await res;
+      }
+      if (isIterator(res)) {
+        res = await collectStream(res);
+      }
+      // the sender already gave up on the work
+      abort.signal.throwIfAborted();
+      checkContract(currentContract(), "response", responseMessage(res));
+
+      if (res instanceof ResponseWithTransfer) {
+        this.post(
+          { __system: true, workId, res: res.message },
+          { transfer: res.transfer },
+        );
+      } else if (res instanceof ResponseWithOptions) {
+        this.post({ __system: true, workId, res: res.message }, res.options);
+      } else {
+        this.post({ __system: true, workId, res });
+      }
+    } catch (err) {
+      if (!this.closed) {
+        this.post({ __system: true, workId, rej: err });
+      }
+    } finally {
+      delete this.workAborts[workId];
+    }
+  }
+}
+
+builtInDehydrationKeys.add(PeerThread.HYDRATION_KEY);
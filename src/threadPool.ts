@@ -6,28 +6,73 @@
     file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
-import {Thread, type ThreadWorker} from "./thread.ts";
+import {
+  Thread,
+  functionWorkerUrl,
+  trackChildPool,
+  type CloseOptions,
+  type CloseResult,
+  type FunctionThreadOptions,
+  type HeartbeatOptions,
+  type SendWorkOptions,
+  type WorkContext,
+  type ThreadOptions,
+  type ThreadWorker,
+} from "./thread.ts";
+import { type BatchOptions } from "./batch.ts";
+import { makeProxy, type ProxyOptions, type RemoteObject } from "./proxy.ts";
+import { getRuntime } from "./runtime.ts";
+import { log } from "./logger.ts";
+import {
+  ThreadEventTarget,
+  type ThreadEvent,
+  type ThreadEventMap,
+  type ThreadPoolEventMap,
+} from "./events.ts";
+import { endSpan, startSpan, traceContext, type Span } from "./tracing.ts";
+import {
+  Histogram,
+  StatsPublisher,
+  type ThreadPoolStats,
+  type ThreadStats,
+} from "./stats.ts";
+import {
+  type ContractInit,
+  type ContractRequest,
+  type ContractResponse,
+  type ThreadContract,
+} from "./contract.ts";
 import {
   ThreadClosedError,
   ThreadPoolClosedError,
   ThreadSpawnFailedError,
+  WorkTimeoutError,
 } from "./errors.ts";
 
-export interface ThreadPoolOptions {
+export interface ThreadPoolOptions<C extends ThreadContract = ThreadContract> {
   /**
    * Initial data for each thread. A deep copy is not made, so do not change this object once given!
    */
-  initData?: any;
+  initData?: ContractInit<C>;
+  /**
+   * Contract for validating messages sent to and received from each thread in the pool
+   */
+  contract?: C;
+  /**
+   * Handler for requests sent by the pool's threads with `requestParent` (see {@link ThreadOptions.onRequestHandler})
+   */
+  onRequestHandler?: (request: any) => any;
   /**
    * Override for the scheduler strategy. This determines how threads are chosen, when to grow the pool, or when to back off and retry
    * The scheduler is given a list of live threads, and a flag indicating whether the pool can grow
    */
   schedulerStrategy?: (
-    threads: Thread[],
+    threads: Thread<C>[],
     canGrow: boolean,
-  ) => Thread | "grow" | null;
+  ) => Thread<C> | "grow" | null;
   /**
-   * Maximum number of threads in the pool. Defaults to navigator.hardwareConcurrency (if available) or 2 otherwise
+   * Maximum number of threads in the pool. Defaults to the number of threads the runtime can run in parallel
+   * (navigator.hardwareConcurrency in browsers, os.availableParallelism() in Node.js) or 2 if unknown
    */
   maxThreads?: number;
   /**
@@ -42,6 +87,31 @@ export interface ThreadPoolOptions {
    * Number of times to retry queuing work with a thread
    */
   queueRetries?: number;
+  /**
+   * If set, a thread will be killed once this many pieces of work sent to it have timed out (see the `timeout` option on {@link ThreadPool.sendWork}).
+   * Killed threads are respawned the same way as threads which crash (i.e. only when needed to keep the minimum thread count)
+   */
+  recycleThreadAfterTimeouts?: number;
+  /**
+   * If set, each thread is checked for liveness with heartbeats (see {@link ThreadOptions.heartbeat}).
+   * Unresponsive threads are not given new work
+   */
+  heartbeat?: HeartbeatOptions<C>;
+  /**
+   * Whether threads which stop responding to heartbeats are killed (defaults to true).
+   * Killed threads are respawned the same way as threads which crash (i.e. only when needed to keep the minimum thread count).
+   * Work that was sent to a killed thread is rejected with a {@link ThreadClosedError} and is not retried
+   */
+  replaceUnresponsiveThreads?: boolean;
+  /**
+   * Batches messages sent to and from each thread (see {@link ThreadOptions.batch})
+   */
+  batch?: boolean | BatchOptions;
+  /**
+   * Turns on priority scheduling (see {@link SendWorkOptions.priority}). Threads are only given a limited amount of work at once,
+   * and other work waits in the pool until a thread has room. Waiting work is given threads in priority order.
+   */
+  priority?: boolean | PriorityOptions;
   /**
    * Type option to pass directly to the worker constructor. Often set to "module" when using esm modules
    */
@@ -57,11 +127,130 @@ export interface ThreadPoolOptions {
   credentials?: "omit" | "same-origin" | "include";
 }
 
-interface ThreadInfo {
-  initPromise: Promise<Thread> | undefined;
+// work waiting for the pool to give it a thread
+interface Waiter<C extends ThreadContract> {
+  priority: number;
+  since: number;
+  // waiters with a higher rank go first, then the ones which started waiting first (lower seq)
+  rank: number;
+  seq: number;
+  res: (thread: Thread<C>) => void;
+  rej: (e: any) => void;
+}
+
+// binary heap of the work waiting for a thread, with the next in line at the top
+class WaitQueue<C extends ThreadContract> {
+  private heap: Waiter<C>[] = [];
+
+  public get size(): number {
+    return this.heap.length;
+  }
+
+  public peek(): Waiter<C> | undefined {
+    return this.heap[0];
+  }
+
+  public push(waiter: Waiter<C>) {
+    this.siftUp(this.heap.push(waiter) - 1);
+  }
+
+  public pop(): Waiter<C> | undefined {
+    const top = this.heap[0];
+    if (top !== undefined) {
+      this.removeAt(0);
+    }
+    return top;
+  }
+
+  // removes a waiter from anywhere in line. Returns false if it wasn't waiting
+  public remove(waiter: Waiter<C>): boolean {
+    const i = this.heap.indexOf(waiter);
+    if (i < 0) {
+      return false;
+    }
+    this.removeAt(i);
+    return true;
+  }
+
+  // removes every waiter
+  public drain(): Waiter<C>[] {
+    const heap = this.heap;
+    this.heap = [];
+    return heap;
+  }
+
+  private removeAt(i: number) {
+    const last = this.heap.pop()!;
+    if (i === this.heap.length) {
+      return;
+    }
+    this.heap[i] = last;
+    this.siftDown(i);
+    this.siftUp(i);
+  }
+
+  private siftUp(i: number) {
+    const heap = this.heap;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!WaitQueue.before(heap[i], heap[parent])) {
+        return;
+      }
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number) {
+    const heap = this.heap;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let next = i;
+      if (left < heap.length && WaitQueue.before(heap[left], heap[next])) {
+        next = left;
+      }
+      if (right < heap.length && WaitQueue.before(heap[right], heap[next])) {
+        next = right;
+      }
+      if (next === i) {
+        return;
+      }
+      [heap[i], heap[next]] = [heap[next], heap[i]];
+      i = next;
+    }
+  }
+
+  private static before<C extends ThreadContract>(
+    a: Waiter<C>,
+    b: Waiter<C>,
+  ): boolean {
+    return a.rank > b.rank || (a.rank === b.rank && a.seq < b.seq);
+  }
+}
+
+/**
+ * Options for priority scheduling in a {@link ThreadPool} (see {@link ThreadPoolOptions.priority})
+ */
+export interface PriorityOptions {
+  /** Maximum number of pieces of work a thread is given at once. Defaults to 1 */
+  maxWorkPerThread?: number;
+  /**
+   * How long (in milliseconds) work waits before its priority goes up by one, so that low priority work isn't starved.
+   * Set to 0 to turn off aging. Defaults to 1000
+   */
+  aging?: number;
+  /** Number of threads (out of the pool's maximum) which only work with a high enough priority can use. Defaults to 0 */
+  reservedThreads?: number;
+  /** Lowest priority which can use the reserved threads. Defaults to 1 */
+  reservedPriority?: number;
+}
+
+interface ThreadInfo<C extends ThreadContract> {
+  initPromise: Promise<Thread<C>> | undefined;
   live: boolean;
   indx: number;
-  thread: Thread;
+  thread: Thread<C>;
 }
 
 /**
@@ -75,34 +264,71 @@ interface ThreadInfo {
  * A scheduler strategy is given a list of threads, and a bool indicating if the pool is able to grow.
  * The scheduler strategy then can return a thread to use, 'grow' to grow (only return this if canGrow is true), or null
  * to indicate wait and try again. If 'grow' is returned and the pool cannot grow, it will wait and try again.
+ * Waiting work is tried again whenever a thread finishes work given to it by the pool, or a thread joins or leaves the pool.
+ * If no thread has work from the pool, then waiting work is tried again after a short delay instead (up to 20ms).
  *
  * The default strategy guarantees that a thread will always be chosen - even if all threads are overloaded.
  * Using `null` as a return value in a custom strategy allows for throttling of background threads, which may be desired.
- * However, after 5 attempts (with backoff), the pool will fail queueing the work and throw an error instead.
  *
  */
-export class ThreadPool implements ThreadWorker {
-  private threads: ThreadInfo[];
+export class ThreadPool<C extends ThreadContract = ThreadContract>
+  extends ThreadEventTarget<ThreadPoolEventMap>
+  implements ThreadWorker<C>
+{
+  private threads: ThreadInfo<C>[];
   private maxThreads: number;
   private minThreads: number;
   private lastLive: number;
-  private options: ThreadPoolOptions;
+  private options: ThreadPoolOptions<C>;
   private script: string;
   private closed: boolean = false;
+  private untrack: () => void;
+  private objectUrl: string | undefined = undefined;
+  private timeouts: WeakMap<Thread<C>, number> = new WeakMap<
+    Thread<C>,
+    number
+  >();
   private schedulerStrategy: (
-    threads: Thread[],
+    threads: Thread<C>[],
     canGrow: boolean,
-  ) => Thread | "grow" | null;
+  ) => Thread<C> | "grow" | null;
+  private priority: PriorityOptions | null;
+  private waiting: WaitQueue<C> = new WaitQueue<C>();
+  // number of pieces of work the pool has given each thread
+  private assigned: Map<Thread<C>, number> = new Map<Thread<C>, number>();
+  private incWaiterId: number = 0;
+  // asks the scheduler strategy again when it made work wait while nothing else could wake the pool
+  private retryTimer: any = null;
+  private retryAttempt: number = 0;
+  private counters = {
+    workSent: 0,
+    workCompleted: 0,
+    workFailed: 0,
+    retries: 0,
+    respawns: 0,
+  };
+  private roundTrip: Histogram = new Histogram();
+  private queueWait: Histogram = new Histogram();
+  // stats from threads which have closed, so they aren't lost when a thread is replaced
+  private retired = {
+    execution: new Histogram(),
+    itemsTransferred: 0,
+    bytesTransferred: 0,
+  };
+  private statsPublisher: StatsPublisher<ThreadPoolStats> = new StatsPublisher(
+    () => this.stats(),
+  );
 
   private constructor(
     res: any,
     rej: any,
     script: string,
-    options?: ThreadPoolOptions,
+    options?: ThreadPoolOptions<C>,
   ) {
+    super();
     let maxCount = options?.maxThreads || 0;
     if (maxCount <= 0 || !isFinite(maxCount)) {
-      maxCount = navigator.hardwareConcurrency || 2;
+      maxCount = getRuntime().hardwareConcurrency();
     }
     this.maxThreads = maxCount;
     if (
@@ -115,12 +341,15 @@ export class ThreadPool implements ThreadWorker {
       this.minThreads = options?.minThreads;
     }
     this.lastLive = -1; // indicates none alive
+    // pools spawned inside a thread are closed when that thread closes
+    this.untrack = trackChildPool(this);
     this.options = options || {};
     this.script = script;
+    this.priority = options?.priority === true ? {} : options?.priority || null;
 
     this.schedulerStrategy =
       options?.schedulerStrategy ||
-      ((threads: Thread[], canGrow) => {
+      ((threads: Thread<C>[], canGrow) => {
         if (threads.length === 0) {
           return canGrow ? "grow" : null;
         }
@@ -163,16 +392,22 @@ export class ThreadPool implements ThreadWorker {
           thread: null as any,
         };
         // respawn the required threads if they ever fail
-        const close = async () => {
+        const close = async (thread: Thread<C>) => {
+          this.retireThread(thread);
           this.threads[threadObj.indx].live = false;
           if (this.closed) {
             this.threads[threadObj.indx].thread = null as any;
             return;
           }
+          ++this.counters.respawns;
           this.threads[threadObj.indx].live = false;
           this.threads[threadObj.indx].initPromise = Thread.spawn(script, {
             initData,
+            contract: this.options?.contract,
+            onRequestHandler: this.options?.onRequestHandler,
             closeHandler: close,
+            heartbeat: this.threadHeartbeat(),
+            batch: this.options?.batch,
             type: this.options?.type,
             name: this.options?.name,
             credentials: this.options?.credentials,
@@ -181,16 +416,26 @@ export class ThreadPool implements ThreadWorker {
             await this.threads[i].initPromise!!;
           this.threads[threadObj.indx].live = true;
           this.threads[threadObj.indx].initPromise = undefined;
+          this.addThread(
+            this.threads[threadObj.indx].thread,
+            "respawn",
+            thread,
+          );
         };
         threadObj.thread = await Thread.spawn(script, {
           initData,
+          contract: this.options?.contract,
+          onRequestHandler: this.options?.onRequestHandler,
           closeHandler: close,
+          heartbeat: this.threadHeartbeat(),
+          batch: this.options?.batch,
           type: this.options?.type,
           name: this.options?.name,
           credentials: this.options?.credentials,
         });
         this.threads[threadObj.indx] = threadObj;
-        this.lastLive = i + 1;
+        this.lastLive = i;
+        this.addThread(threadObj.thread, "spawn");
       } catch (e) {
         // if a required thread fails to initialize, clean up and then fail
         for (let cleanup = 0; cleanup < i; ++cleanup) {
@@ -209,12 +454,12 @@ export class ThreadPool implements ThreadWorker {
    * @param script The script string to run in each of the worker threads
    * @param options The options for spawning a thread pool
    */
-  public static spawn(
+  public static spawn<C extends ThreadContract = ThreadContract>(
     script: string,
-    options?: ThreadPoolOptions,
-  ): Promise<ThreadPool> {
-    return new Promise<ThreadPool>((resolve, reject) => {
-      const t = new ThreadPool(
+    options?: ThreadPoolOptions<C>,
+  ): Promise<ThreadPool<C>> {
+    return new Promise<ThreadPool<C>>((resolve, reject) => {
+      const t: ThreadPool<C> = new ThreadPool<C>(
         () => resolve(t),
         (err: any) => reject(err),
         script,
@@ -223,6 +468,27 @@ export class ThreadPool implements ThreadWorker {
     });
   }
 
+  /**
+   * Spawns a thread pool whose threads run a function as their `work` handler (see {@link Thread.fromFunction}).
+   * The object URL for the threads' script is revoked when the pool is closed
+   * @param fn Work handler for the threads. Must be self-contained since only its source code is sent to the threads
+   * @param options The options for spawning a thread pool
+   */
+  public static async fromFunction<C extends ThreadContract = ThreadContract>(
+    fn: (work: ContractRequest<C>, ctx: WorkContext) => any,
+    options?: ThreadPoolOptions<C> & FunctionThreadOptions,
+  ): Promise<ThreadPool<C>> {
+    const url = functionWorkerUrl(fn, options);
+    try {
+      const pool = await ThreadPool.spawn<C>(url, options);
+      pool.objectUrl = url;
+      return pool;
+    } catch (e) {
+      URL.revokeObjectURL(url);
+      throw e;
+    }
+  }
+
   /**
    * Gets the maximum thread capacity of the pool
    */
@@ -243,72 +509,391 @@ export class ThreadPool implements ThreadWorker {
     return s;
   }
 
-  private async selectThread(): Promise<Thread> {
-    let attempt = 0;
-    while (true) {
-      try {
-        const canGrow = this.lastLive < this.maxThreads;
-        let readyThreads = [];
-        let initializing = 0;
-
-        for (const t of this.threads.slice(0, this.lastLive + 1)) {
-          if (t.live) {
-            readyThreads.push(t.thread);
-          } else if (t.initPromise) {
-            initializing++;
-          }
-        }
+  /**
+   * Gets statistics for the work sent to the pool and its threads (see {@link ThreadPoolStats})
+   */
+  public stats(): ThreadPoolStats {
+    const execution = new Histogram();
+    execution.merge(this.retired.execution.snapshot());
+    let pending = 0;
+    let itemsTransferred = this.retired.itemsTransferred;
+    let bytesTransferred = this.retired.bytesTransferred;
+    for (const t of this.threads.slice(0, this.lastLive + 1)) {
+      if (!t || !t.live || !t.thread) {
+        continue;
+      }
+      const stats = t.thread.stats();
+      pending += stats.pending;
+      itemsTransferred += stats.itemsTransferred;
+      bytesTransferred += stats.bytesTransferred;
+      execution.merge(stats.execution);
+    }
+    return {
+      ...this.counters,
+      size: this.size(),
+      capacity: this.capacity(),
+      pending,
+      roundTrip: this.roundTrip.snapshot(),
+      queueWait: this.queueWait.snapshot(),
+      execution: execution.snapshot(),
+      itemsTransferred,
+      bytesTransferred,
+    };
+  }
+
+  /**
+   * Calls a listener with the pool's latest statistics (see {@link ThreadPool.stats}) until the pool is closed
+   * @param listener Listener to call with the stats
+   * @param interval How often (in milliseconds) to call the listener. Defaults to 1000
+   * @return Function to stop calling the listener
+   */
+  public subscribeStats(
+    listener: (stats: ThreadPoolStats) => any,
+    interval: number = 1000,
+  ): () => void {
+    return this.statsPublisher.subscribe(listener, interval);
+  }
+
+  // sends the pool's events for a thread which joined the pool, and re-sends the thread's events from the pool
+  private addThread(
+    thread: Thread<C>,
+    type: "spawn" | "respawn",
+    replaced?: Thread<C>,
+  ) {
+    const types: (keyof ThreadEventMap)[] = [
+      "message",
+      "transfer",
+      "error",
+      "close",
+      "busy",
+      "idle",
+    ];
+    for (const t of types) {
+      thread.addEventListener(t, (e: ThreadEvent<any>) =>
+        this.emit(t, e.threadId, e.detail),
+      );
+    }
+    if (type === "respawn") {
+      this.emit("respawn", thread.id(), replaced?.id());
+    } else {
+      this.emit("spawn", thread.id());
+    }
+    this.dispatch();
+  }
+
+  private retireThread(thread: Thread<C> | undefined) {
+    if (!thread) {
+      return;
+    }
+    const stats: ThreadStats = thread.stats();
+    this.retired.execution.merge(stats.execution);
+    this.retired.itemsTransferred += stats.itemsTransferred;
+    this.retired.bytesTransferred += stats.bytesTransferred;
+  }
 
-        if (readyThreads.length === 0) {
-          if (readyThreads.length === 0 && canGrow) {
-            const t = await this.growPool();
-            t.poolClaim();
-            return t;
+  // waits in line for a thread. Aborting the signal or passing the deadline takes the work out of line
+  private selectThread(
+    options: SendWorkOptions | undefined,
+    deadline: number | undefined,
+  ): Promise<Thread<C>> {
+    if (this.closed) {
+      return Promise.reject(new ThreadPoolClosedError());
+    }
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise<Thread<C>>((res, rej) => {
+      const priority = options?.priority || 0;
+      const since = Date.now();
+      let settled = false;
+      let timer: any = null;
+      const settle = () => {
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        if (timer !== null) {
+          clearTimeout(timer);
+        }
+      };
+      const waiter: Waiter<C> = {
+        priority,
+        since,
+        rank: this.rank(priority, since),
+        seq: ++this.incWaiterId,
+        res: (thread) => {
+          // the work left the line while a thread was spawned for it
+          if (settled) {
+            this.release(thread);
+            return;
+          }
+          settle();
+          res(thread);
+        },
+        rej: (e) => {
+          if (!settled) {
+            settle();
+            rej(e);
           }
+        },
+      };
+      const leave = (e: any) => {
+        if (settled) {
+          return;
         }
+        this.waiting.remove(waiter);
+        waiter.rej(e);
+        // work behind it may be able to go now
+        this.dispatch();
+      };
+      const onAbort = () => leave(signal!.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (deadline !== undefined) {
+        timer = setTimeout(
+          () => leave(new WorkTimeoutError(options!.timeout!)),
+          Math.max(0, deadline - Date.now()),
+        );
+      }
+      this.waiting.push(waiter);
+      this.dispatch();
+    });
+  }
 
-        const action = this.schedulerStrategy(readyThreads, canGrow);
-        if (action === "grow" && canGrow) {
-          const t = await this.growPool();
-          t.poolClaim();
-          return t;
-        } else if (action === null || !action || !(action instanceof Thread)) {
-          await new Promise((w) =>
-            setTimeout(() => w(null), Math.min(2 * ++attempt, 20)),
-          );
-          continue;
-        } else {
-          action.poolClaim();
-          return action;
-        }
+  // gives threads to waiting work in line (highest priority first, then oldest first) until the next in line has to wait
+  private dispatch() {
+    while (this.waiting.size > 0) {
+      if (this.closed) {
+        this.rejectWaiting();
+        return;
+      }
+      const waiter = this.waiting.peek()!;
+      let action: Thread<C> | "grow" | null;
+      try {
+        action = this.pickThread(waiter);
       } catch (e) {
-        console.error("Encountered error when trying to queue work", e);
+        log("error", "pool", "Encountered error when trying to queue work", e);
+        this.waiting.pop();
+        waiter.rej(e);
+        continue;
+      }
+      if (action === null) {
+        this.scheduleRetry();
+        return;
+      }
+      this.retryAttempt = 0;
+      this.waiting.pop();
+      if (action === "grow") {
+        // other work can be given threads (or grow the pool) while this thread spawns
+        this.growPool().then(waiter.res, waiter.rej);
+      } else {
+        this.claim(action);
+        waiter.res(action);
+      }
+    }
+  }
+
+  // picks a thread for a waiter, or null if it has to wait
+  private pickThread(waiter: Waiter<C>): Thread<C> | "grow" | null {
+    const allowed = this.mayUseThread(waiter);
+    const canGrow = allowed && this.lastLive + 1 < this.maxThreads;
+    let readyThreads = [];
+
+    for (const t of this.threads.slice(0, this.lastLive + 1)) {
+      if (t && t.live && t.thread.isResponsive() && this.hasRoom(t.thread)) {
+        readyThreads.push(t.thread);
       }
     }
+
+    if (!allowed) {
+      readyThreads = [];
+    } else if (readyThreads.length === 0 && canGrow) {
+      return "grow";
+    }
+
+    const action = this.schedulerStrategy(readyThreads, canGrow);
+    if (action === "grow") {
+      return canGrow ? "grow" : null;
+    }
+    return action instanceof Thread ? action : null;
+  }
+
+  // a strategy can make work wait (e.g. to throttle) even though no thread has work from the pool.
+  // Nothing would finish and call dispatch again then, so try again after a short (growing) delay
+  private scheduleRetry() {
+    if (this.retryTimer !== null || this.assigned.size > 0) {
+      return;
+    }
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.dispatch();
+      },
+      Math.min(2 * ++this.retryAttempt, 20),
+    );
+  }
+
+  private rejectWaiting() {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    for (const waiter of this.waiting.drain()) {
+      waiter.rej(new ThreadPoolClosedError());
+    }
+  }
+
+  // aging raises the priority of all waiting work at the same rate, so work which started waiting earlier
+  // is ranked as if it had a higher priority
+  private rank(priority: number, since: number): number {
+    const aging = this.agingPeriod();
+    return aging > 0 ? priority - since / aging : priority;
+  }
+
+  private effectivePriority(waiter: Waiter<C>, now: number): number {
+    const aging = this.agingPeriod();
+    if (aging <= 0) {
+      return waiter.priority;
+    }
+    return waiter.priority + Math.floor((now - waiter.since) / aging);
+  }
+
+  // 0 when aging is off
+  private agingPeriod(): number {
+    const aging = this.priority?.aging ?? 1000;
+    return this.priority && aging > 0 && isFinite(aging) ? aging : 0;
+  }
+
+  private hasRoom(thread: Thread<C>): boolean {
+    if (!this.priority) {
+      return true;
+    }
+    const max = this.priority.maxWorkPerThread || 1;
+    return (this.assigned.get(thread) || 0) < max;
+  }
+
+  private claim(thread: Thread<C>) {
+    thread.poolClaim();
+    this.assigned.set(thread, (this.assigned.get(thread) || 0) + 1);
+  }
+
+  private release(thread: Thread<C>) {
+    thread.poolRelease();
+    const n = (this.assigned.get(thread) || 0) - 1;
+    if (n > 0) {
+      this.assigned.set(thread, n);
+    } else {
+      this.assigned.delete(thread);
+    }
+    // the thread may have room for waiting work now
+    this.dispatch();
+  }
+
+  // low priority work can't use the threads that are reserved for high priority work
+  private mayUseThread(waiter: Waiter<C>): boolean {
+    const reserved = this.priority?.reservedThreads || 0;
+    if (
+      reserved <= 0 ||
+      this.effectivePriority(waiter, Date.now()) >=
+        (this.priority?.reservedPriority ?? 1)
+    ) {
+      return true;
+    }
+    // threads which were given work by the pool (threads are removed once they finish all of it)
+    return this.assigned.size < this.maxThreads - reserved;
   }
 
   /**
    * Sends a job to the thread pool to be scheduled. May grow the pool if needed.
    * @param work Work to send
-   * @param options Options for postMessage (be careful when transferring ownership! If a thread dies you may not be able to recover the transferred data!)
+   * @param options Options for sending work (be careful when transferring ownership! If a thread dies you may not be able to recover the transferred data!)
    */
-  public async sendWork(work: any, options?: StructuredSerializeOptions) {
+  public async sendWork<R = ContractResponse<C>>(
+    work: ContractRequest<C>,
+    options?: SendWorkOptions,
+  ): Promise<R> {
+    const span = startSpan("pool.sendWork", {}, options?.trace);
+    ++this.counters.workSent;
+    const sentAt = performance.now();
+    try {
+      const res = await this.scheduleWork<R>(work, options, span);
+      ++this.counters.workCompleted;
+      this.roundTrip.record(performance.now() - sentAt);
+      endSpan(span);
+      return res;
+    } catch (e) {
+      ++this.counters.workFailed;
+      this.roundTrip.record(performance.now() - sentAt);
+      endSpan(span, e);
+      throw e;
+    }
+  }
+
+  private async scheduleWork<R>(
+    work: ContractRequest<C>,
+    options: SendWorkOptions | undefined,
+    span: Span | null,
+  ): Promise<R> {
     const maxAttempts = this.options?.queueRetries || 5;
     if (this.closed) {
       throw new ThreadPoolClosedError();
     }
+    // the thread's spans are nested under the pool's span
+    const sendOptions = span
+      ? { ...options, trace: traceContext(span) }
+      : options;
+    // time spent waiting for a thread counts towards the work's timeout
+    const timeout = options?.timeout;
+    const deadline =
+      timeout && timeout > 0 && isFinite(timeout)
+        ? Date.now() + timeout
+        : undefined;
+    let lastError: any = new ThreadClosedError();
     for (let i = 0; i < maxAttempts; ++i) {
-      const thread = await this.selectThread();
+      options?.signal?.throwIfAborted();
+      const schedule = startSpan(
+        "pool.schedule",
+        { attempt: i + 1 },
+        traceContext(span),
+      );
+      const waitStart = performance.now();
+      let thread: Thread<C>;
+      try {
+        thread = await this.selectThread(options, deadline);
+      } catch (e) {
+        endSpan(schedule, e);
+        throw e;
+      }
+      this.queueWait.record(performance.now() - waitStart);
+      if (schedule) {
+        schedule.attributes.thread = thread.id();
+      }
+      endSpan(schedule);
       if (this.closed) {
         throw new ThreadPoolClosedError();
       }
 
       // we only retry if sending the work failed (usually happens when we send to a dead thread)
       try {
-        return await thread.sendWork(work, options);
+        return await thread.sendWork<R>(
+          work,
+          deadline === undefined
+            ? sendOptions
+            : { ...sendOptions, timeout: Math.max(1, deadline - Date.now()) },
+        );
       } catch (e: any) {
         // cannot retry, data is lost!
-        if (options?.transfer) {
+        if (options?.transfer || options?.autoTransfer) {
+          throw e;
+        }
+        // cancelled work is never retried
+        if (options?.signal?.aborted) {
+          throw e;
+        }
+        if (e instanceof WorkTimeoutError) {
+          this.recordTimeout(thread);
+          throw e;
+        }
+        // the work may be what hung the thread, so don't hang another thread with it
+        if (!thread.isResponsive()) {
           throw e;
         }
         if (
@@ -321,24 +906,88 @@ export class ThreadPool implements ThreadWorker {
           // wait for threads to clean up and try again
           // Note: for this loop we only retry if we send to a dead/dying thread, not for any other errors
           // The other errors are handled by a separate retry loop
+          lastError = e;
+          ++this.counters.retries;
           await new Promise((w) => setTimeout(() => w(null), 2 * i));
         } else {
           throw e;
         }
       } finally {
-        thread.poolRelease();
+        this.release(thread);
       }
     }
+    // every attempt went to a thread which closed
+    throw lastError;
+  }
+
+  /**
+   * Creates a proxy for calling methods and reading properties of an object exposed in the pool's threads with {@link expose}.
+   * Each call is scheduled on the pool like any other work.
+   * @param options Options used for every call made through the proxy (e.g. timeout)
+   */
+  public proxy<T>(options?: ProxyOptions): RemoteObject<T> {
+    return makeProxy<T>(this, options);
+  }
+
+  private recordTimeout(thread: Thread<C>) {
+    const limit = this.options?.recycleThreadAfterTimeouts || 0;
+    if (limit <= 0 || !isFinite(limit)) {
+      return;
+    }
+    const count = (this.timeouts.get(thread) || 0) + 1;
+    if (count < limit) {
+      this.timeouts.set(thread, count);
+      return;
+    }
+    // a thread that keeps timing out is most likely stuck, so replace it
+    // the thread's close handler takes care of respawning it
+    this.timeouts.delete(thread);
+    thread.kill();
+  }
+
+  private threadHeartbeat(): HeartbeatOptions<C> | undefined {
+    const heartbeat = this.options?.heartbeat;
+    if (!heartbeat) {
+      return undefined;
+    }
+    return {
+      ...heartbeat,
+      onUnresponsive: (thread) => {
+        heartbeat.onUnresponsive?.(thread);
+        // the thread's close handler takes care of respawning it
+        if (
+          this.options?.replaceUnresponsiveThreads !== false &&
+          !this.closed
+        ) {
+          thread.kill();
+        }
+      },
+      onResponsive: (thread) => {
+        heartbeat.onResponsive?.(thread);
+        // waiting work can be given the thread again
+        this.dispatch();
+      },
+    };
   }
 
   /**
    * Attempt a graceful shutdown of the thread pool where it will try to wait for any remaining work (though it if times out it will force a shutdown)
+   * @param options Options for closing each thread (see {@link Thread.close})
+   * @return Resolves once every thread has exited, with the work that was abandoned by each thread
    */
-  public close() {
+  public async close(options?: CloseOptions): Promise<CloseResult> {
     this.closed = true;
-    for (const t of this.threads.slice(0, this.lastLive)) {
-      t.thread.close();
-    }
+    this.rejectWaiting();
+    this.untrack();
+    this.revokeObjectUrl();
+    this.statsPublisher.clear();
+    const results = await Promise.all(
+      this.threads
+        .slice(0, this.lastLive + 1)
+        .filter((t) => t && t.thread)
+        .map((t) => t.thread.close(options)),
+    );
+    return { abandoned: results.flatMap((r) => r.abandoned) };
   }
 
   /**
@@ -346,16 +995,28 @@ export class ThreadPool implements ThreadWorker {
    */
   public kill() {
     this.closed = true;
-    for (const t of this.threads.slice(0, this.lastLive)) {
-      if (t.live && t.thread) {
+    this.rejectWaiting();
+    this.untrack();
+    this.revokeObjectUrl();
+    this.statsPublisher.clear();
+    for (const t of this.threads.slice(0, this.lastLive + 1)) {
+      if (t && t.live && t.thread) {
         t.thread.kill();
       }
     }
   }
 
+  private revokeObjectUrl() {
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = undefined;
+    }
+  }
+
+  // the new thread is claimed for the work which grew the pool before other work can be given it
   private async growPool() {
     const i = ++this.lastLive;
-    const threadObj: ThreadInfo = {
+    const threadObj: ThreadInfo<C> = {
       initPromise: undefined,
       indx: i,
       thread: undefined as any,
@@ -363,7 +1024,8 @@ export class ThreadPool implements ThreadWorker {
     };
     this.threads[i] = threadObj;
     // respawn the required threads if they ever fail
-    const close = () => {
+    const close = (thread?: Thread<C>) => {
+      this.retireThread(thread);
       if (this.closed) {
         this.threads[threadObj.indx].live = false;
         this.threads[threadObj.indx].thread = null as any;
@@ -372,14 +1034,20 @@ export class ThreadPool implements ThreadWorker {
       this.threads[threadObj.indx].indx = threadObj.indx;
       this.threads[this.lastLive] = null as any;
       --this.lastLive;
+      // waiting work may be able to grow the pool now
+      this.dispatch();
     };
     try {
       this.threads[i] = threadObj;
       this.threads[threadObj.indx].live = false;
       this.threads[threadObj.indx].initPromise = Thread.spawn(this.script, {
         initData: this.options.initData,
+        contract: this.options?.contract,
+        onRequestHandler: this.options?.onRequestHandler,
         closeHandler: close,
         closeWhenIdle: this.options.closeThreadWhenIdle,
+        heartbeat: this.threadHeartbeat(),
+        batch: this.options?.batch,
         type: this.options?.type,
         name: this.options?.name,
         credentials: this.options?.credentials,
@@ -387,6 +1055,8 @@ export class ThreadPool implements ThreadWorker {
       this.threads[threadObj.indx].thread = await this.threads[i].initPromise!!;
       this.threads[threadObj.indx].initPromise = undefined;
       this.threads[threadObj.indx].live = true;
+      this.claim(this.threads[threadObj.indx].thread);
+      this.addThread(this.threads[threadObj.indx].thread, "spawn");
       return this.threads[threadObj.indx].thread;
     } catch (e) {
       close();
@@ -0,0 +1,189 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * Identifies a span so that other spans (including spans in other threads) can be nested under it
+ */
+export interface TraceContext {
+  /** Id of the trace (shared by every span nested under the same root span) */
+  traceId: string;
+  /** Id of the span */
+  spanId: string;
+}
+
+/**
+ * A timed operation (see {@link setTracer}). Times are in milliseconds since the epoch (with sub-millisecond precision)
+ * so that spans from different threads can be compared
+ */
+export interface Span extends TraceContext {
+  /** What the span is timing (e.g. "thread.send") */
+  name: string;
+  /** Id of the span this span is nested under (if any) */
+  parentSpanId?: string;
+  /** Id of the thread the span was recorded in */
+  threadId: string;
+  /** When the span started */
+  startTime: number;
+  /** When the span ended (only set once the span has ended) */
+  endTime?: number;
+  /** Extra information about the span (e.g. the work id) */
+  attributes: { [key: string]: any };
+  /** Error the operation failed with (if it failed) */
+  error?: any;
+}
+
+/**
+ * Receives spans as they start and end.
+ *
+ * The spans are:
+ *  - `thread.spawn` - spawning and initializing a {@link Thread}
+ *  - `thread.sendWork` - work sent to a {@link Thread}, from when it's sent until its result is received
+ *  - `thread.send` - dehydrating and posting work to a thread
+ *  - `worker.execute` - running work inside the thread. Recorded by the thread, and given to the tracer once the result is received
+ *  - `thread.receive` - hydrating the result of work
+ *  - `pool.sendWork` - work sent to a {@link ThreadPool}, including retries
+ *  - `pool.schedule` - waiting for the pool to pick a thread
+ */
+export interface Tracer {
+  /** Called when a span starts */
+  onSpanStart?: (span: Span) => void;
+  /** Called when a span ends */
+  onSpanEnd?: (span: Span) => void;
+}
+
+let tracer: Tracer | null = null;
+let traceThreadId: string = "main";
+let incSpanId: number = 0;
+
+/**
+ * Sets the tracer for the current thread (or removes it when given null). Spans are only recorded while there is a tracer.
+ *
+ * Work sent to a thread carries the current trace context, so the `worker.execute` span recorded by the thread is
+ * nested under the caller's span and given to the caller's tracer. Threads don't need their own tracer for that.
+ * @param newTracer Tracer to give spans to
+ */
+export function setTracer(newTracer: Tracer | null) {
+  tracer = newTracer;
+}
+
+/**
+ * Checks if spans are being recorded in the current thread
+ */
+export function isTracing(): boolean {
+  return tracer !== null;
+}
+
+/**
+ * Current time in milliseconds since the epoch (comparable across threads)
+ */
+export function traceTime(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Creates a span without giving it to the tracer
+ * @param name Name of the span
+ * @param attributes Extra information about the span
+ * @param parent Span to nest the new span under
+ * @param startTime When the span started (defaults to now)
+ */
+export function createSpan(
+  name: string,
+  attributes: { [key: string]: any },
+  parent?: TraceContext | null,
+  startTime: number = traceTime(),
+): Span {
+  const spanId = traceThreadId + ":" + ++incSpanId;
+  const span: Span = {
+    name,
+    traceId: parent?.traceId || spanId,
+    spanId,
+    threadId: traceThreadId,
+    startTime,
+    attributes,
+  };
+  if (parent) {
+    span.parentSpanId = parent.spanId;
+  }
+  return span;
+}
+
+/**
+ * Starts a span if there is a tracer
+ * @param name Name of the span
+ * @param attributes Extra information about the span
+ * @param parent Span to nest the new span under
+ * @return The started span, or null if there is no tracer
+ */
+export function startSpan(
+  name: string,
+  attributes: { [key: string]: any },
+  parent?: TraceContext | null,
+): Span | null {
+  if (!tracer) {
+    return null;
+  }
+  const span = createSpan(name, attributes, parent);
+  tracer.onSpanStart?.(span);
+  return span;
+}
+
+/**
+ * Marks a span as finished without giving it to the tracer
+ * @param span Span to finish
+ * @param error Error the operation failed with (if any)
+ * @param endTime When the span ended (defaults to now)
+ */
+export function finishSpan(
+  span: Span,
+  error?: unknown,
+  endTime: number = traceTime(),
+): Span {
+  span.endTime = endTime;
+  if (error !== undefined) {
+    span.error = error;
+  }
+  return span;
+}
+
+/**
+ * Ends a span started with {@link startSpan}. Spans are only ended once
+ * @param span Span to end (does nothing if null)
+ * @param error Error the operation failed with (if any)
+ */
+export function endSpan(span: Span | null | undefined, error?: unknown) {
+  if (!span || span.endTime !== undefined) {
+    return;
+  }
+  finishSpan(span, error);
+  tracer?.onSpanEnd?.(span);
+}
+
+/**
+ * Gives a finished span (e.g. one recorded by another thread) to the tracer
+ */
+export function recordSpan(span: Span) {
+  tracer?.onSpanStart?.(span);
+  tracer?.onSpanEnd?.(span);
+}
+
+/**
+ * Gets the trace context for a span (to send to other threads)
+ */
+export function traceContext(
+  span: Span | null | undefined,
+): TraceContext | undefined {
+  return span ? { traceId: span.traceId, spanId: span.spanId } : undefined;
+}
+
+/**
+ * Sets the thread id which is added to spans. Set by the library when a thread is initialized
+ */
+export function setTraceThreadId(threadId: string) {
+  traceThreadId = threadId;
+}
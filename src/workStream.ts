@@ -0,0 +1,145 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * A stream of results for work sent with {@link Thread.streamWork}. Consume it with `for await`.
+ *
+ * Streams use credit-based backpressure. The thread may only send `bufferSize` results ahead of the consumer,
+ * after which it pauses until the consumer catches up. Breaking out of the loop (or calling `return`) cancels
+ * the work in the thread. Errors thrown by the thread are re-thrown from the loop once all results received
+ * before the error have been consumed.
+ */
+export class WorkStream<T = any> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private readers: Array<{
+    res: (_: IteratorResult<T>) => any;
+    rej: (_: any) => any;
+  }> = [];
+  private finished: boolean = false;
+  private closed: boolean = false;
+  private failed: boolean = false;
+  private error: any = undefined;
+  private result: any = undefined;
+  private consumed: number = 0;
+  private bufferSize: number;
+  private ack: (credits: number) => void;
+  private cancel: () => void;
+
+  /**
+   * Creates a new work stream. You will not need to call this directly as streams are made by {@link Thread.streamWork}
+   * @param bufferSize Number of results the thread may send ahead of the consumer
+   * @param ack Called to give the thread more credits once results have been consumed
+   * @param cancel Called when the consumer stops early
+   */
+  constructor(
+    bufferSize: number,
+    ack: (credits: number) => void,
+    cancel: () => void,
+  ) {
+    this.bufferSize = bufferSize;
+    this.ack = ack;
+    this.cancel = cancel;
+  }
+
+  /**
+   * Helper method for threads to add a result received from the thread
+   * @param chunk Result to add
+   */
+  public push(chunk: T) {
+    if (this.finished || this.closed) {
+      return;
+    }
+    const reader = this.readers.shift();
+    if (reader) {
+      this.consume();
+      reader.res({ value: chunk, done: false });
+    } else {
+      this.buffer.push(chunk);
+    }
+  }
+
+  /**
+   * Helper method for threads to mark that the thread finished sending results
+   * @param result Return value of the work handler (if any)
+   */
+  public end(result?: any) {
+    if (this.finished || this.closed) {
+      return;
+    }
+    this.finished = true;
+    this.result = result;
+    for (const reader of this.readers.splice(0)) {
+      reader.res({ value: result, done: true });
+    }
+  }
+
+  /**
+   * Helper method for threads to mark that the work failed
+   * @param err Error from the thread
+   */
+  public fail(err: any) {
+    if (this.finished || this.closed) {
+      return;
+    }
+    this.finished = true;
+    this.error = err;
+    const readers = this.readers.splice(0);
+    for (const reader of readers) {
+      reader.rej(err);
+    }
+    // if nobody was waiting, then the error is thrown on the next read
+    this.failed = readers.length === 0;
+  }
+
+  public next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length) {
+      this.consume();
+      return Promise.resolve({ value: this.buffer.shift()!, done: false });
+    }
+    if (this.failed) {
+      // only throw the error once
+      this.failed = false;
+      return Promise.reject(this.error);
+    }
+    if (this.finished || this.closed) {
+      return Promise.resolve({ value: this.result, done: true });
+    }
+    return new Promise((res, rej) => {
+      this.readers.push({ res, rej });
+    });
+  }
+
+  public return(value?: any): Promise<IteratorResult<T>> {
+    if (!this.finished && !this.closed) {
+      this.closed = true;
+      this.cancel();
+    }
+    this.closed = true;
+    this.buffer = [];
+    this.failed = false;
+    for (const reader of this.readers.splice(0)) {
+      reader.res({ value, done: true });
+    }
+    return Promise.resolve({ value, done: true });
+  }
+
+  public [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  private consume() {
+    if (this.finished || this.closed) {
+      return;
+    }
+    // batch up acks so we don't send a message for every result
+    if (++this.consumed >= Math.ceil(this.bufferSize / 2)) {
+      this.ack(this.consumed);
+      this.consumed = 0;
+    }
+  }
+}
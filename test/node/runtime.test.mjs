@@ -0,0 +1,93 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+// Runs against the built library (`vite build`) with Node's test runner
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Mutex,
+  SharedThread,
+  Thread,
+  ThreadPool,
+  UnsupportedRuntimeError,
+  getRuntime,
+} from "../../dist/threads.es.js";
+
+const script = new URL("./worker-square.mjs", import.meta.url).href;
+const stuckScript = new URL("./worker-stuck-close.mjs", import.meta.url).href;
+
+describe("Node runtime", () => {
+  it("is detected", () => {
+    assert.equal(getRuntime().name, "node");
+    assert.ok(getRuntime().hardwareConcurrency() > 0);
+  });
+
+  it("can send work to a thread", async () => {
+    const thread = await Thread.spawn(script);
+    assert.equal(await thread.sendWork(7), 49);
+    await thread.close();
+  });
+
+  it("can transfer to and from a thread", async () => {
+    let resolve;
+    const received = new Promise((res) => (resolve = res));
+    const thread = await Thread.spawn(script, { onTransferHandler: resolve });
+    const ints = new Int32Array([99, 1, 2, 3]);
+    await thread.transfer(ints, ints.buffer);
+    // ownership moved to the thread
+    assert.equal(ints.length, 0);
+    const { first, ints: back } = await received;
+    assert.equal(first, 99);
+    assert.equal(back.length, 4);
+    await thread.close();
+  });
+
+  it("can share synchronization primitives with a pool", async () => {
+    const pool = await ThreadPool.spawn(script, { maxThreads: 3 });
+    const mutex = Mutex.make();
+    const counter = new Int32Array(new SharedArrayBuffer(4));
+    await Promise.all(
+      [...Array(6)].map(() => pool.sendWork({ mutex, counter })),
+    );
+    assert.equal(counter[0], 6);
+    await pool.close();
+  });
+
+  it("can spawn threads from functions", async () => {
+    const thread = await Thread.fromFunction((x) => x + 1);
+    assert.equal(await thread.sendWork(1), 2);
+    await thread.close();
+
+    const pool = await ThreadPool.fromFunction((x) => x * 3, {
+      maxThreads: 2,
+    });
+    assert.deepEqual(
+      await Promise.all([1, 2, 3].map((x) => pool.sendWork(x))),
+      [3, 6, 9],
+    );
+    await pool.close();
+  });
+
+  it("kills threads which don't exit after closing", async () => {
+    const thread = await Thread.spawn(stuckScript);
+    assert.equal(await thread.sendWork(3), 9);
+    const { abandoned } = await thread.close({
+      drainTimeout: 0,
+      childTimeout: 0,
+      exitTimeout: 50,
+    });
+    assert.deepEqual(abandoned, []);
+  });
+
+  it("does not support shared threads", async () => {
+    await assert.rejects(
+      async () => SharedThread.connect(script),
+      UnsupportedRuntimeError,
+    );
+  });
+});
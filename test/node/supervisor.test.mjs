@@ -0,0 +1,84 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+// Runs against the built library (`vite build`) with Node's test runner
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Supervisor } from "../../dist/threads.es.js";
+
+const script = new URL("./worker-crash.mjs", import.meta.url).href;
+
+function nextRestart(supervisor) {
+  return new Promise((res) =>
+    supervisor.addEventListener("restart", res, { once: true }),
+  );
+}
+
+describe("Supervisor", () => {
+  it("restarts threads which crash", async () => {
+    const supervisor = await Supervisor.start([{ name: "crashy", script }], {
+      backoff: { initial: 10 },
+    });
+    const first = supervisor.thread("crashy");
+    let restarted = nextRestart(supervisor);
+    await first.sendWork("crash");
+    assert.equal((await restarted).detail, "crashy");
+    const second = supervisor.thread("crashy");
+    assert.notEqual(second.id(), first.id());
+    assert.equal(await second.sendWork(3), 9);
+
+    // threads which exit on their own are restarted too
+    restarted = nextRestart(supervisor);
+    await second.sendWork("exit");
+    await restarted;
+    assert.notEqual(supervisor.thread("crashy").id(), second.id());
+    await supervisor.close();
+  });
+
+  it("shares items with restarted threads", async () => {
+    const counter = new Int32Array(new SharedArrayBuffer(4));
+    const supervisor = await Supervisor.start(
+      [{ name: "crashy", script, share: [counter] }],
+      { backoff: { initial: 10 } },
+    );
+    assert.equal(counter[0], 1);
+    const restarted = nextRestart(supervisor);
+    await supervisor.thread("crashy").sendWork("crash");
+    await restarted;
+    assert.equal(counter[0], 2);
+    await supervisor.close();
+  });
+
+  it("restarts every thread with one-for-all", async () => {
+    const supervisor = await Supervisor.start(
+      [
+        { name: "a", script },
+        { name: "b", script },
+      ],
+      { strategy: "one-for-all", backoff: { initial: 10 } },
+    );
+    const a = supervisor.thread("a");
+    const b = supervisor.thread("b");
+    const restarted = [];
+    const done = new Promise((res) =>
+      supervisor.addEventListener("restart", (e) => {
+        restarted.push(e.detail);
+        if (restarted.length === 2) {
+          res();
+        }
+      }),
+    );
+    await a.sendWork("crash");
+    await done;
+    assert.deepEqual(restarted, ["a", "b"]);
+    assert.notEqual(supervisor.thread("a").id(), a.id());
+    assert.notEqual(supervisor.thread("b").id(), b.id());
+    assert.equal(await supervisor.thread("b").sendWork(4), 16);
+    await supervisor.close();
+  });
+});
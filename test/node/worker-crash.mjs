@@ -0,0 +1,28 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { registerHandler } from "../../dist/threads.es.js";
+
+// counts how many times it was shared with a thread
+registerHandler("share", ({ share }) => {
+  Atomics.add(share, 0, 1);
+});
+
+registerHandler("work", (x) => {
+  if (x === "crash") {
+    setTimeout(() => {
+      throw new Error("crashed");
+    });
+    return null;
+  }
+  if (x === "exit") {
+    setTimeout(() => process.exit(3));
+    return null;
+  }
+  return x * x;
+});
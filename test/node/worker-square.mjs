@@ -0,0 +1,23 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { registerHandler, transfer } from "../../dist/threads.es.js";
+
+registerHandler("work", (x) => {
+  if (x && x.mutex) {
+    x.mutex.lock();
+    x.counter[0] += 1;
+    x.mutex.unlock();
+    return null;
+  }
+  return x * x;
+});
+
+registerHandler("transfer", (ints) => {
+  transfer({ first: ints[0], ints }, ints.buffer);
+});
@@ -0,0 +1,14 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { registerHandler } from "../../dist/threads.es.js";
+
+registerHandler("work", (x) => x * x);
+
+// never finishes closing
+registerHandler("close", () => new Promise(() => {}));
@@ -16,6 +16,7 @@ const {
   ConditionVariable,
   WaitGroup,
   Semaphore,
+  Supervisor,
 } = threads;
 
 describe("Thread", () => {
@@ -232,6 +233,795 @@ describe("Thread", () => {
     expect(ints.at(0)).to.equal(99);
     thread.close();
   });
+
+  it("can cancel work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-cancel.js");
+    const controller = new AbortController();
+    const p = thread.sendWork(4, { signal: controller.signal });
+    expect(thread.numPendingRequests()).to.equal(1);
+    controller.abort();
+
+    let err = null;
+    try {
+      await p;
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.not.be.null;
+    expect(err.name).to.equal("AbortError");
+    expect(thread.numPendingRequests()).to.equal(0);
+    expect(await thread.sendWork("cancelled")).to.equal(1);
+    thread.close();
+  });
+
+  it("rejects already cancelled work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-cancel.js");
+    const controller = new AbortController();
+    controller.abort();
+
+    let err = null;
+    try {
+      await thread.sendWork(4, { signal: controller.signal });
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.not.be.null;
+    expect(thread.numPendingRequests()).to.equal(0);
+    expect(await thread.sendWork("cancelled")).to.equal(0);
+    thread.close();
+  });
+
+  it("can time out work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-cancel.js");
+
+    let err = null;
+    try {
+      await thread.sendWork(4, { timeout: 20 });
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.be.instanceOf(threads.WorkTimeoutError);
+    expect(thread.numPendingRequests()).to.equal(0);
+    expect(await thread.sendWork("cancelled")).to.equal(1);
+    expect(await thread.sendWork("cancelled", { timeout: 1000 })).to.equal(1);
+    thread.close();
+  });
+
+  it("replaces unresponsive threads", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    let unresponsive = 0;
+    const pool = await ThreadPool.spawn("worker-heartbeat.js", {
+      maxThreads: 1,
+      heartbeat: {
+        interval: 50,
+        timeout: 200,
+        onUnresponsive: () => ++unresponsive,
+      },
+    });
+
+    let err = null;
+    try {
+      await pool.sendWork({ ms: 60_000 });
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.be.instanceOf(threads.ThreadClosedError);
+    expect(unresponsive).to.equal(1);
+
+    // the hung thread was replaced with a fresh one
+    expect(await pool.sendWork({ ms: 10 })).to.equal(10);
+    pool.close();
+  });
+
+  it("waits for pending work when closing", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-slow.js");
+    const work = thread.sendWork(3);
+    const { abandoned } = await thread.close();
+    expect(await work).to.equal(9);
+    expect(abandoned).to.deep.equal([]);
+  });
+
+  it("forgets work which could not be sent", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker1.js");
+    const err = await thread
+      .sendWork(() => 3, { timeout: 1000 })
+      .then(
+        () => null,
+        (e) => e,
+      );
+    expect(err).to.be.instanceOf(DOMException);
+    expect(err.name).to.equal("DataCloneError");
+    expect(thread.numPendingRequests()).to.equal(0);
+    expect(thread.stats().workFailed).to.equal(1);
+    const { abandoned } = await thread.close();
+    expect(abandoned).to.deep.equal([]);
+  });
+
+  it("can reject pending work when closing", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-slow.js");
+    const work = thread.sendWork(3).catch((e) => e);
+    const { abandoned } = await thread.close({ rejectPending: true });
+    expect(await work).to.be.instanceOf(threads.ThreadClosedError);
+    expect(abandoned.map((a) => a.work)).to.deep.equal([3]);
+    expect(abandoned[0].threadId).to.equal(thread.id());
+  });
+
+  it("stops waiting for in-flight work after the drain timeout", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    // work sent to this thread never finishes unless it's cancelled
+    const thread = await Thread.spawn("worker-cancel.js");
+    const work = thread.sendWork("stuck").catch((e) => e);
+    const start = Date.now();
+    const { abandoned } = await thread.close({ drainTimeout: 50 });
+    expect(Date.now() - start).to.be.below(1000);
+    expect(await work).to.be.instanceOf(threads.ThreadClosedError);
+    expect(abandoned.map((a) => a.work)).to.deep.equal(["stuck"]);
+  });
+
+  it("kills threads which don't exit after closing", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-stuck-close.js");
+    expect(await thread.sendWork(3)).to.equal(9);
+    const start = Date.now();
+    const { abandoned } = await thread.close({
+      drainTimeout: 0,
+      childTimeout: 0,
+      exitTimeout: 50,
+    });
+    expect(Date.now() - start).to.be.below(1000);
+    expect(abandoned).to.deep.equal([]);
+  });
+
+  it("dispatches lifecycle events", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-slow.js", { initData: 12 });
+    const events = [];
+    for (const type of ["busy", "idle", "message", "close"]) {
+      thread.addEventListener(type, (e) => events.push(e.type));
+    }
+    const messages = new Promise((res) =>
+      thread.addEventListener("message", (e) => res(e.detail.data)),
+    );
+    // listeners don't replace the handler set with a setter
+    let handled = null;
+    thread.setOnEvent((e) => (handled = e.data));
+
+    expect(await thread.sendWork(3)).to.equal(9);
+    thread.sendEvent(-23);
+    expect(await messages).to.equal(12);
+    expect(handled).to.equal(12);
+    await thread.close();
+    expect(events).to.deep.equal(["busy", "idle", "message", "close"]);
+  });
+
+  it("reports progress", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-progress.js");
+    const progress = [];
+    const res = await thread.sendWork(4, {
+      onProgress: (p) => progress.push(p),
+    });
+    expect(res).to.equal(16);
+    expect(progress).to.deep.equal([0.25, 0.5, 0.75, 1]);
+    thread.close();
+  });
+
+  it("can stream work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-stream.js");
+    const results = [];
+    for await (const r of thread.streamWork(50, { bufferSize: 4 })) {
+      results.push(r);
+    }
+    expect(results.length).to.equal(50);
+    expect(results[7]).to.equal(49);
+    expect(await thread.sendWork(3)).to.deep.equal([0, 1, 4]);
+    thread.close();
+  });
+
+  it("can stop streams early", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-stream.js");
+    const results = [];
+    for await (const r of thread.streamWork(10_000, { bufferSize: 2 })) {
+      results.push(r);
+      if (results.length === 3) {
+        break;
+      }
+    }
+    expect(results).to.deep.equal([0, 1, 4]);
+    await new Promise((r) => setTimeout(() => r(null), 20));
+    expect(await thread.sendWork("closed")).to.deep.equal([1]);
+    thread.close();
+  });
+
+  it("propagates stream errors", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-stream.js");
+    const results = [];
+    let err = null;
+    try {
+      for await (const r of thread.streamWork("error")) {
+        results.push(r);
+      }
+    } catch (e) {
+      err = e;
+    }
+    expect(results).to.deep.equal([1]);
+    expect(err.message).to.equal("Stream failed");
+    thread.close();
+  });
+
+  it("can call exposed methods through a proxy", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-rpc.js");
+    const api = thread.proxy();
+    expect(await api.math.square(4)).to.equal(16);
+    expect(await api.math.cube(3)).to.equal(27);
+    expect(await api.counter.increment(2)).to.equal(2);
+    expect(await api.counter.increment(3)).to.equal(5);
+    expect(await api.counter.doubled).to.equal(10);
+    expect(await api.version).to.equal("1.0");
+
+    let err = null;
+    try {
+      await api.math.divide(4, 2);
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.not.be.null;
+    thread.close();
+  });
+
+  it("validates messages against a contract", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const contract = {
+      name: "square",
+      request: (x) => x >= 0 || "expected a positive number",
+    };
+    const thread = await Thread.spawn("worker-contract.js", { contract });
+    expect(await thread.sendWork(4)).to.equal(16);
+
+    // rejected by the main thread's contract
+    let err = null;
+    try {
+      await thread.sendWork(-4);
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.be.instanceOf(threads.ValidationError);
+    expect(err.message).to.contain("expected a positive number");
+
+    // rejected by the thread's contract
+    err = null;
+    try {
+      await thread.sendWork("4");
+    } catch (e) {
+      err = e;
+    }
+    expect(err.message).to.contain("expected a number");
+
+    // response rejected by the thread's contract
+    err = null;
+    try {
+      await thread.sendWork(20);
+    } catch (e) {
+      err = e;
+    }
+    expect(err.message).to.contain("result too large");
+    thread.close();
+  });
+
+  it("can call functions sent with proxyFunction", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-callback.js");
+    const seen = [];
+    const res = await thread.sendWork({
+      type: "map",
+      items: [1, 2, 3],
+      fn: threads.proxyFunction(async (x) => {
+        seen.push(x);
+        return x * 10;
+      }),
+    });
+    expect(res).to.deep.equal([10, 20, 30]);
+    expect(seen).to.deep.equal([1, 2, 3]);
+
+    expect(
+      await thread.sendWork({
+        type: "fail",
+        fn: threads.proxyFunction(() => {
+          throw new Error("bad callback");
+        }),
+      }),
+    ).to.equal("caught bad callback");
+
+    const add = await thread.sendWork({ type: "adder", amount: 5 });
+    expect(await add(2)).to.equal(7);
+    threads.releaseProxy(add);
+
+    let err = null;
+    try {
+      await add(2);
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.be.instanceOf(threads.ProxyReleasedError);
+    thread.close();
+  });
+
+  it("does not send ports from messages which failed to dehydrate", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    class Broken {}
+    threads.registerDeHydration({
+      key: "Broken",
+      isa: (v) => v instanceof Broken,
+      dehydrate: () => {
+        throw new Error("cannot dehydrate");
+      },
+      hydrate: (v) => v,
+    });
+    const thread = await Thread.spawn("worker-callback.js");
+    let err = null;
+    try {
+      // the function's port is made before dehydrating fails
+      await thread.sendWork({
+        type: "map",
+        fn: threads.proxyFunction((x) => x),
+        broken: new Broken(),
+      });
+    } catch (e) {
+      err = e;
+    }
+    expect(err.message).to.equal("cannot dehydrate");
+    threads.unregisterDeHydration("Broken");
+
+    expect(await thread.sendWork({ type: "map", items: [] })).to.deep.equal([]);
+    expect(thread.stats().itemsTransferred).to.equal(0);
+    thread.close();
+  });
+
+  it("can respond to requests from the thread", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const values = { a: 1, b: 2 };
+    const thread = await Thread.spawn("worker-request.js", {
+      onRequestHandler: async ({ key }) => {
+        if (!(key in values)) {
+          throw new Error("missing " + key);
+        }
+        return values[key];
+      },
+    });
+    expect(await thread.sendWork(["a", "b", "c"])).to.deep.equal([
+      1,
+      2,
+      "error: missing c",
+    ]);
+    thread.close();
+  });
+
+  it("can link threads together", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const a = await Thread.spawn("worker-link.js");
+    const b = await Thread.spawn("worker-link.js");
+    const c = await Thread.spawn("worker-link.js");
+    await Thread.link(a, b);
+    expect(await a.sendWork({ type: "peerId" })).to.equal(b.id());
+    expect(await b.sendWork({ type: "peerId" })).to.equal(a.id());
+    expect(await a.sendWork({ type: "ask", x: 3 })).to.equal(9);
+    expect(await b.sendWork({ type: "ask", x: 4 })).to.equal(16);
+
+    // responses can transfer what they find in the dehydrated message
+    expect(await a.sendWork({ type: "askBuffer", size: 8 })).to.equal(8);
+    expect(await b.sendWork({ type: "transferred" })).to.be.true;
+
+    // a linked thread's failures are reported to the linked thread rather than its parent
+    const errors = [];
+    b.addEventListener("error", (e) => errors.push(e.detail));
+    await a.sendWork({ type: "tell", event: "bad" });
+    expect(await a.sendWork({ type: "ask", x: 2 })).to.equal(4);
+    expect(errors).to.deep.equal([]);
+
+    // handles can be passed along to other threads
+    const handle = await a.sendWork({ type: "handoff" });
+    expect(handle).to.be.instanceOf(threads.PeerThread);
+    expect(await c.sendWork({ type: "askVia", peer: handle, x: 5 })).to.equal(
+      25,
+    );
+    a.close();
+    b.close();
+    c.close();
+  });
+
+  it("can spawn threads from threads", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const closed = new Int32Array(new SharedArrayBuffer(4));
+    const thread = await Thread.spawn("worker-nested.js", {
+      initData: { closed },
+    });
+    const childId = await thread.sendWork({ type: "spawn", depth: 2 });
+    expect(childId.startsWith(thread.id() + "->")).to.be.true;
+    expect(await thread.sendWork({ type: "children" })).to.deep.equal([
+      childId,
+    ]);
+
+    const descendants = await thread.descendants();
+    expect(descendants.length).to.equal(2);
+    expect(descendants[0]).to.equal(childId);
+    expect(descendants[1].startsWith(childId + "->")).to.be.true;
+
+    expect(await thread.sendWork({ type: "pool", x: 3 })).to.equal(9);
+    expect((await thread.descendants()).length).to.equal(4);
+
+    // closing a thread closes everything it spawned
+    thread.close();
+    for (let i = 0; i < 50 && Atomics.load(closed, 0) < 3; ++i) {
+      await new Promise((res) => setTimeout(res, 100));
+    }
+    expect(Atomics.load(closed, 0)).to.equal(3);
+  });
+
+  it("forgets threads which fail to spawn", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const before = threads.childThreads().length;
+    const failure = async (script, options) => {
+      try {
+        await Thread.spawn(script, options);
+      } catch (e) {
+        return e;
+      }
+      return null;
+    };
+
+    // the script doesn't load
+    expect(await failure("worker-missing.js")).to.be.instanceOf(
+      threads.ThreadSpawnFailedError,
+    );
+    // the init data is rejected by the thread
+    expect(
+      await failure("worker-contract.js", { initData: { offset: "1" } }),
+    ).to.be.instanceOf(threads.ThreadSpawnFailedError);
+    expect(threads.childThreads().length).to.equal(before);
+  });
+
+  it("validates init data against a contract", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-contract.js", {
+      initData: { offset: 1 },
+    });
+    expect(await thread.sendWork(3)).to.equal(10);
+    thread.close();
+
+    let err = null;
+    try {
+      await Thread.spawn("worker-contract.js", {
+        initData: { offset: "1" },
+      });
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.not.be.null;
+  });
+
+  it("passes falsy init data through a contract", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    let resolve;
+    const message = new Promise((res) => (resolve = res));
+    const thread = await Thread.spawn("worker1.js", {
+      contract: { init: (x) => typeof x === "number" || "expected a number" },
+      initData: 0,
+      onEventHandler: (e) => resolve(e.data),
+    });
+    thread.sendEvent(-23);
+    expect(await message).to.equal(0);
+    thread.close();
+  });
+
+  it("preserves error classes", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    class CustomError extends Error {}
+    threads.registerErrorClass(CustomError, "CustomError");
+    const thread = await Thread.spawn("worker-errors.js");
+    const failure = async (kind) => {
+      try {
+        await thread.sendWork(kind);
+      } catch (e) {
+        return e;
+      }
+      return null;
+    };
+
+    const library = await failure("library");
+    expect(library).to.be.instanceOf(threads.OutOfBoundsError);
+    expect(library.stack).to.contain("sent to thread");
+
+    const restarts = await failure("restarts");
+    expect(restarts).to.be.instanceOf(threads.RestartLimitError);
+    expect(restarts.message).to.equal(
+      "Thread 'child' needed more than 3 restarts in 1000ms!",
+    );
+
+    const custom = await failure("custom");
+    expect(custom).to.be.instanceOf(CustomError);
+    expect(custom.code).to.equal(42);
+
+    const cause = await failure("cause");
+    expect(cause.message).to.equal("outer");
+    expect(cause.cause).to.be.instanceOf(TypeError);
+    expect(cause.cause.message).to.equal("inner");
+
+    const aggregate = await failure("aggregate");
+    expect(aggregate).to.be.instanceOf(AggregateError);
+    expect(aggregate.errors[0]).to.be.instanceOf(RangeError);
+    expect(aggregate.errors[1]).to.be.instanceOf(threads.ThreadPoolClosedError);
+    thread.close();
+  });
+
+  it("can turn off stack stitching", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-errors.js");
+    const failure = async () => {
+      try {
+        await thread.sendWork("library");
+      } catch (e) {
+        return e;
+      }
+      return null;
+    };
+
+    threads.setStackStitching(false);
+    expect((await failure()).stack).to.not.contain("sent to thread");
+    threads.setStackStitching(true);
+    expect((await failure()).stack).to.contain("sent to thread");
+    thread.close();
+  });
+
+  it("dehydrates messages without changing them", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-echo.js");
+    const mutex = Mutex.make();
+    const shared = { x: 1 };
+    const value = {
+      locks: new Map([["a", mutex]]),
+      set: new Set([mutex]),
+      left: shared,
+      right: shared,
+      date: new Date(0),
+    };
+    value.self = value;
+
+    expect(await thread.sendWork({ inspect: true, value })).to.deep.equal({
+      mutexInMap: true,
+      mutexInSet: true,
+      cyclic: true,
+      shared: true,
+      date: true,
+    });
+    // the original message is left alone
+    expect(value.locks.get("a")).to.equal(mutex);
+    expect(value.self).to.equal(value);
+
+    const echoed = await thread.sendWork({ value });
+    expect(echoed.locks.get("a")).to.be.instanceOf(Mutex);
+    expect(echoed.self).to.equal(echoed);
+    expect(echoed.left).to.equal(echoed.right);
+    thread.close();
+  });
+
+  it("hydrates registered types by key and version", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    class Point {
+      constructor(x, y) {
+        this.x = x;
+        this.y = y;
+      }
+      static dehydrate(p) {
+        return { x: p.x, y: p.y };
+      }
+      static hydrate(v) {
+        return new Point(v.x, v.y);
+      }
+    }
+    class Size {
+      constructor(w, h) {
+        this.w = w;
+        this.h = h;
+      }
+      static dehydrate(s) {
+        return { w: s.w, h: s.h };
+      }
+      static hydrate(v) {
+        return new Size(v.w, v.h);
+      }
+    }
+    threads.registerDeHydration({ key: "Point", type: Point, version: 1 });
+    threads.registerDeHydration({ key: "Size", type: Size });
+    const thread = await Thread.spawn("worker-dehydration.js");
+    const failure = async (work) => {
+      try {
+        await thread.sendWork(work);
+      } catch (e) {
+        return e;
+      }
+      return null;
+    };
+
+    // the versions for Point don't match, which is detected in both directions
+    expect(await failure(new Point(1, 2))).to.be.instanceOf(
+      threads.BadDeHydrationError,
+    );
+    expect(await failure(new Size(3, 4))).to.be.instanceOf(
+      threads.BadDeHydrationError,
+    );
+
+    expect(threads.unregisterDeHydration("Point")).to.equal(true);
+    threads.registerDeHydration({ key: "Point", type: Point, version: 2 });
+    const size = await thread.sendWork(new Point(1, 2));
+    expect(size).to.be.instanceOf(Size);
+    expect(size.h).to.equal(2);
+    const point = await thread.sendWork(new Size(3, 4));
+    expect(point).to.be.instanceOf(Point);
+    expect(point.x).to.equal(3);
+    thread.close();
+  });
+
+  it("can transfer automatically", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    expect(threads.isTransferable(new ReadableStream())).to.equal(true);
+    expect(threads.isTransferable(new SharedArrayBuffer(8))).to.equal(false);
+
+    const thread = await Thread.spawn("worker-auto-transfer.js");
+    const ints = new Int32Array([1, 2, 3]);
+    const keep = new Int32Array([4]);
+    const res = await thread.sendWork(
+      { ints, keep },
+      { autoTransfer: { deny: [keep] } },
+    );
+    // sent buffers are detached, denied ones are copied
+    expect(ints.length).to.equal(0);
+    expect(keep.length).to.equal(1);
+    expect([...res.doubled]).to.deep.equal([2, 4, 6]);
+    expect(res.kept).to.equal(1);
+    thread.close();
+  });
+
+  it("detects unresponsive threads", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const events = [];
+    const thread = await Thread.spawn("worker-heartbeat.js", {
+      heartbeat: {
+        interval: 50,
+        timeout: 200,
+        onUnresponsive: () => events.push("unresponsive"),
+        onResponsive: () => events.push("responsive"),
+      },
+    });
+    expect(thread.isResponsive()).to.equal(true);
+
+    // heartbeats from a busy loop keep the thread responsive
+    expect(await thread.sendWork({ ms: 600, beat: true })).to.equal(600);
+    expect(events).to.deep.equal([]);
+
+    const p = thread.sendWork({ ms: 600 });
+    await new Promise((r) => setTimeout(() => r(null), 400));
+    expect(thread.isResponsive()).to.equal(false);
+    expect(await p).to.equal(600);
+    expect(thread.isResponsive()).to.equal(true);
+    expect(events).to.deep.equal(["unresponsive", "responsive"]);
+    thread.close();
+  });
+
+  it("can batch messages", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-batch.js", { batch: true });
+    const sends = [];
+    for (let i = 0; i < 50; ++i) {
+      sends.push(thread.sendWork(i));
+    }
+    // transfers aren't batched, but are still received in order
+    const buffer = new ArrayBuffer(8);
+    sends.push(thread.sendWork(buffer, { transfer: [buffer] }));
+    for (let i = 0; i < 50; ++i) {
+      sends.push(thread.sendWork(i));
+    }
+
+    const results = await Promise.all(sends);
+    expect(results).to.deep.equal(results.map((_, i) => i));
+    expect(await thread.sendWork("envelopes")).to.be.lessThan(10);
+    thread.close();
+  });
+
+  it("copies batched messages when they're sent", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.spawn("worker-echo.js", {
+      batch: { window: 20 },
+    });
+    const value = { x: 1, list: [1] };
+    const sent = thread.sendWork({ value });
+    // changed while the message waits in the batch
+    value.x = 2;
+    value.list.push(2);
+    expect(await sent).to.deep.equal({ x: 1, list: [1] });
+
+    let err = null;
+    try {
+      await thread.sendWork({ value: Symbol("not cloneable") });
+    } catch (e) {
+      err = e;
+    }
+    expect(err.name).to.equal("DataCloneError");
+    expect(await thread.sendWork({ value: 3 })).to.equal(3);
+    thread.close();
+  });
+
+  it("can log structured records", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const records = [];
+    threads.configureLogging({
+      level: "debug",
+      categories: ["spawn", "messaging"],
+      logger: { log: (record) => records.push(record) },
+    });
+    try {
+      const thread = await Thread.spawn("worker-logging.js");
+      await thread.sendWork(1);
+      thread.close();
+
+      expect(records.every((r) => r.category !== "hydration")).to.equal(true);
+      expect(
+        records.some((r) => r.threadId === "main" && r.category === "spawn"),
+      ).to.equal(true);
+      expect(
+        records.some((r) => r.category === "messaging" && r.workId),
+      ).to.equal(true);
+      // records logged by the thread are forwarded to the main thread
+      expect(
+        records.some(
+          (r) => r.threadId === thread.id() && r.message === "Thread ready!",
+        ),
+      ).to.equal(true);
+    } finally {
+      threads.configureLogging({
+        level: "warn",
+        categories: null,
+        logger: threads.consoleLogger,
+      });
+    }
+  });
+
+  it("can spawn a thread from a function", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.fromFunction((x) => x * x, {
+      runtimeUrl: "/dist/threads.iife.js",
+    });
+    expect(await thread.sendWork(4)).to.equal(16);
+    expect(await thread.sendWork(5)).to.equal(25);
+    thread.close();
+  });
+
+  it("can spawn a thread from a function inside a function thread", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await Thread.fromFunction(
+      async (x) => {
+        // the inner thread finds the library without being given its URL
+        const inner = await threads.Thread.fromFunction((y) => y * 2);
+        try {
+          return await inner.sendWork(x);
+        } finally {
+          await inner.close();
+        }
+      },
+      { runtimeUrl: "/dist/threads.iife.js" },
+    );
+    expect(await thread.sendWork(4)).to.equal(8);
+    thread.close();
+  });
 });
 
 describe("SharedThread", () => {
@@ -424,6 +1214,86 @@ describe("SharedThread", () => {
     expect(ints.at(0)).to.equal(99);
     thread.sever();
   });
+
+  it("reports progress", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker-progress.js");
+    const progress = [];
+    const res = await thread.sendWork(2, {
+      onProgress: (p) => progress.push(p),
+    });
+    expect(res).to.equal(4);
+    expect(progress).to.deep.equal([0.5, 1]);
+    thread.disconnect();
+  });
+
+  it("stops waiting for connections which don't close", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker-blocking.js");
+    const work = thread.sendWork(2000).catch((e) => e);
+    await new Promise((res) => setTimeout(res, 20));
+    const start = Date.now();
+    const { abandoned } = await thread.close({
+      drainTimeout: 0,
+      exitTimeout: 50,
+    });
+    expect(Date.now() - start).to.be.below(1000);
+    expect(await work).to.be.instanceOf(threads.ThreadClosedError);
+    expect(abandoned.map((a) => a.work)).to.deep.equal([2000]);
+  });
+
+  it("waits for pending work when closing", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker-progress.js");
+    const work = thread.sendWork(5);
+    const { abandoned } = await thread.close();
+    expect(await work).to.equal(25);
+    expect(abandoned).to.deep.equal([]);
+  });
+
+  it("forgets work which could not be sent", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker1.js");
+    const err = await thread
+      .sendWork(() => 3, { timeout: 1000 })
+      .then(
+        () => null,
+        (e) => e,
+      );
+    expect(err).to.be.instanceOf(DOMException);
+    expect(err.name).to.equal("DataCloneError");
+    expect(thread.numPendingRequests()).to.equal(0);
+    const { abandoned } = await thread.close();
+    expect(abandoned).to.deep.equal([]);
+  });
+
+  it("can reject pending work when closing", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker-progress.js");
+    const work = thread.sendWork(50).catch((e) => e);
+    const { abandoned } = await thread.close({ rejectPending: true });
+    expect(await work).to.be.instanceOf(threads.ThreadClosedError);
+    expect(abandoned.map((a) => a.work)).to.deep.equal([50]);
+    expect(abandoned[0].threadId).to.equal(thread.id());
+  });
+
+  it("can call exposed methods through a proxy", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker-rpc.js");
+    const api = thread.proxy();
+    expect(await api.math.square(4)).to.equal(16);
+    expect(await api.version).to.equal("1.0");
+    thread.disconnect();
+  });
+
+  it("can respond to requests from the thread", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const thread = await SharedThread.connect("shared-worker-request.js", {
+      onRequestHandler: ({ key }) => key.toUpperCase(),
+    });
+    expect(await thread.sendWork("abc")).to.equal("ABC");
+    thread.disconnect();
+  });
 });
 
 describe("ThreadPool", () => {
@@ -614,6 +1484,405 @@ describe("ThreadPool", () => {
     }
     pool.kill();
   });
+
+  it("kills every thread when killed", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-heartbeat.js", {
+      minThreads: 1,
+      maxThreads: 3,
+    });
+    await Promise.all([30, 30, 30, 30].map((ms) => pool.sendWork(ms)));
+    const size = pool.size();
+    expect(size).to.be.within(1, 3);
+    const closed = [];
+    pool.addEventListener("close", (e) => closed.push(e.threadId));
+    pool.kill();
+    expect(closed.length).to.equal(size);
+  });
+
+  it("can cancel work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-cancel.js", { maxThreads: 1 });
+    const controller = new AbortController();
+    const p = pool.sendWork(4, { signal: controller.signal });
+    await new Promise((r) => setTimeout(() => r(null), 20));
+    controller.abort();
+
+    let err = null;
+    try {
+      await p;
+    } catch (e) {
+      err = e;
+    }
+    expect(err).to.not.be.null;
+    expect(err.name).to.equal("AbortError");
+    expect(await pool.sendWork("cancelled")).to.equal(1);
+    pool.close();
+  });
+
+  it("can recycle threads after timeouts", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-cancel.js", {
+      maxThreads: 1,
+      recycleThreadAfterTimeouts: 2,
+    });
+
+    for (let i = 0; i < 2; ++i) {
+      let err = null;
+      try {
+        await pool.sendWork(4, { timeout: 20 });
+      } catch (e) {
+        err = e;
+      }
+      expect(err).to.be.instanceOf(threads.WorkTimeoutError);
+    }
+
+    // the thread that timed out was replaced with a fresh one
+    expect(await pool.sendWork("cancelled")).to.equal(0);
+    pool.close();
+  });
+
+  it("traces work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const spans = [];
+    threads.setTracer({ onSpanEnd: (span) => spans.push(span) });
+    try {
+      const pool = await ThreadPool.spawn("worker1.js", { maxThreads: 1 });
+      expect(await pool.sendWork(3)).to.equal(9);
+      pool.close();
+    } finally {
+      threads.setTracer(null);
+    }
+
+    const byName = Object.fromEntries(spans.map((s) => [s.name, s]));
+    expect(byName["thread.spawn"]).to.not.be.undefined;
+    const root = byName["pool.sendWork"];
+    for (const name of [
+      "pool.schedule",
+      "thread.sendWork",
+      "thread.send",
+      "worker.execute",
+      "thread.receive",
+    ]) {
+      expect(byName[name].traceId).to.equal(root.traceId);
+      expect(byName[name].endTime).to.be.at.least(byName[name].startTime);
+    }
+    // the thread's span is nested under the span of the work sent to it
+    expect(byName["worker.execute"].parentSpanId).to.equal(
+      byName["thread.sendWork"].spanId,
+    );
+    expect(byName["thread.sendWork"].parentSpanId).to.equal(root.spanId);
+  });
+
+  it("ends the schedule span when the pool closes", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const spans = [];
+    threads.setTracer({ onSpanEnd: (span) => spans.push(span) });
+    try {
+      // with priority scheduling, work waits in line for a free thread
+      const pool = await ThreadPool.spawn("worker-slow.js", {
+        maxThreads: 1,
+        priority: true,
+      });
+      const busy = pool.sendWork(2).catch(() => null);
+      const waiting = pool.sendWork(3).then(
+        () => null,
+        (e) => e,
+      );
+      await new Promise((res) => setTimeout(res, 5));
+      pool.close();
+      await busy;
+      const err = await waiting;
+      expect(err).to.be.instanceOf(threads.ThreadPoolClosedError);
+    } finally {
+      threads.setTracer(null);
+    }
+
+    const failed = spans.filter((s) => s.name === "pool.schedule" && s.error);
+    expect(failed.length).to.equal(1);
+    expect(failed[0].error).to.be.instanceOf(threads.ThreadPoolClosedError);
+  });
+
+  it("lists the work abandoned by each thread when closing", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    // work sent to these threads never finishes unless it's cancelled
+    const pool = await ThreadPool.spawn("worker-cancel.js", { maxThreads: 2 });
+    const work = ["a", "b", "c"].map((w) => pool.sendWork(w).catch((e) => e));
+    await new Promise((res) => setTimeout(res, 20));
+    const { abandoned } = await pool.close({ drainTimeout: 50 });
+    for (const err of await Promise.all(work)) {
+      expect(err).to.be.instanceOf(threads.ThreadPoolClosedError);
+    }
+    expect(abandoned.map((a) => a.work).sort()).to.deep.equal(["a", "b", "c"]);
+  });
+
+  it("reports stats", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker1.js", { maxThreads: 2 });
+    const updates = [];
+    const unsubscribe = pool.subscribeStats((s) => updates.push(s), 5);
+    const results = await Promise.all(
+      [1, 2, 3, 4].map((x) => pool.sendWork(x)),
+    );
+    expect(results).to.deep.equal([1, 4, 9, 16]);
+    await new Promise((r) => setTimeout(r, 20));
+    unsubscribe();
+
+    const stats = pool.stats();
+    expect(stats.workSent).to.equal(4);
+    expect(stats.workCompleted).to.equal(4);
+    expect(stats.workFailed).to.equal(0);
+    expect(stats.pending).to.equal(0);
+    expect(stats.roundTrip.count).to.equal(4);
+    expect(stats.queueWait.count).to.equal(4);
+    expect(stats.execution.count).to.equal(4);
+    expect(stats.capacity).to.equal(2);
+    expect(updates.length).to.be.greaterThan(0);
+    expect(updates[updates.length - 1].workCompleted).to.equal(4);
+    pool.close();
+  });
+
+  it("dispatches events for its threads", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    // the thread closes itself after each piece of work, so the pool respawns it
+    const pool = await ThreadPool.spawn("worker-bad.js", { maxThreads: 1 });
+    const busy = [];
+    pool.addEventListener("busy", (e) => busy.push(e.threadId));
+    const respawned = new Promise((res) =>
+      pool.addEventListener("respawn", (e) => res(e)),
+    );
+    expect(await pool.sendWork(2)).to.equal(4);
+    expect(busy.length).to.be.greaterThan(0);
+
+    const e = await respawned;
+    expect(e.detail).to.equal(busy[0]);
+    expect(e.threadId).to.not.equal(busy[0]);
+    pool.close();
+  });
+
+  it("runs higher priority work first", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-slow.js", {
+      maxThreads: 1,
+      priority: true,
+    });
+    const order = [];
+    const send = (x, priority) =>
+      pool.sendWork(x, { priority }).then((r) => order.push(r));
+    // the first piece of work takes the thread, so the rest wait in the pool
+    await Promise.all([send(1, 0), send(2, 0), send(3, 0), send(4, 5)]);
+    expect(order).to.deep.equal([1, 16, 4, 9]);
+    pool.close();
+  });
+
+  it("asks a throttling scheduler strategy again", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    let openAt = Infinity;
+    let asked = 0;
+    const pool = await ThreadPool.spawn("worker1.js", {
+      maxThreads: 1,
+      // work waits until the pool is open, even though the thread is idle
+      schedulerStrategy: (threads) => {
+        ++asked;
+        return Date.now() < openAt ? null : threads[0] || null;
+      },
+    });
+    openAt = Date.now() + 50;
+    expect(await pool.sendWork(3)).to.equal(9);
+    expect(Date.now()).to.be.at.least(openAt);
+    expect(asked).to.be.above(1);
+    pool.close();
+  });
+
+  it("cancels work which is waiting for a thread", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    // the work blocks its thread for as many milliseconds as it's told to
+    const pool = await ThreadPool.spawn("worker-heartbeat.js", {
+      maxThreads: 1,
+      priority: true,
+    });
+    const busy = pool.sendWork({ ms: 300 });
+    const controller = new AbortController();
+    const aborted = pool
+      .sendWork({ ms: 1 }, { signal: controller.signal })
+      .catch((e) => e);
+    const timedOut = pool.sendWork({ ms: 1 }, { timeout: 30 }).catch((e) => e);
+    const start = Date.now();
+    setTimeout(() => controller.abort(new Error("stop")), 10);
+
+    expect((await aborted).message).to.equal("stop");
+    expect(await timedOut).to.be.instanceOf(threads.WorkTimeoutError);
+    // neither waited for the busy thread
+    expect(Date.now() - start).to.be.below(200);
+    expect(await busy).to.equal(300);
+    expect(await pool.sendWork({ ms: 1 })).to.equal(1);
+    pool.close();
+  });
+
+  it("raises the priority of waiting work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    for (const [aging, expected] of [
+      [10, [100, 1, 2]],
+      [0, [100, 2, 1]],
+    ]) {
+      // the work blocks its thread for as many milliseconds as it's told to
+      const pool = await ThreadPool.spawn("worker-heartbeat.js", {
+        maxThreads: 1,
+        priority: { aging },
+      });
+      const order = [];
+      const send = (ms, priority) =>
+        pool.sendWork({ ms }, { priority }).then((r) => order.push(r));
+      const sent = [send(100, 0), send(1, 0)];
+      // the waiting low priority work gains a priority every 10ms
+      await new Promise((res) => setTimeout(res, 30));
+      sent.push(send(2, 1));
+      await Promise.all(sent);
+      expect(order).to.deep.equal(expected);
+      pool.close();
+    }
+  });
+
+  it("keeps reserved threads for high priority work", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-heartbeat.js", {
+      maxThreads: 2,
+      priority: { reservedThreads: 1, aging: 0 },
+    });
+    const order = [];
+    const send = (ms, priority) =>
+      pool.sendWork({ ms }, { priority }).then((r) => order.push(r));
+    // the second piece of low priority work waits for the first one instead of using the reserved thread
+    const low = [send(100, 0), send(1, 0)];
+    await new Promise((res) => setTimeout(res, 10));
+    await send(2, 1);
+    expect(order).to.deep.equal([2]);
+    await Promise.all(low);
+    expect(order).to.deep.equal([2, 100, 1]);
+    pool.close();
+  });
+
+  it("reports progress", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-progress.js", {
+      maxThreads: 2,
+    });
+    const progress = [];
+    const res = await pool.sendWork(2, {
+      onProgress: (p) => progress.push(p),
+    });
+    expect(res).to.equal(4);
+    expect(progress).to.deep.equal([0.5, 1]);
+    pool.close();
+  });
+
+  it("can call exposed methods through a proxy", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.spawn("worker-rpc.js", { maxThreads: 2 });
+    const api = pool.proxy();
+    const results = await Promise.all(
+      [1, 2, 3, 4].map((x) => api.math.cube(x)),
+    );
+    expect(results).to.deep.equal([1, 8, 27, 64]);
+    pool.close();
+  });
+
+  it("can spawn a thread pool from a function", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const pool = await ThreadPool.fromFunction((x) => x + 1, {
+      runtimeUrl: "/dist/threads.iife.js",
+      maxThreads: 2,
+    });
+    const results = await Promise.all(
+      [1, 2, 3, 4].map((x) => pool.sendWork(x)),
+    );
+    expect(results).to.deep.equal([2, 3, 4, 5]);
+    pool.close();
+  });
+});
+
+describe("Supervisor", () => {
+  it("restarts threads with their init data", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    // the thread closes itself after each piece of work
+    const supervisor = await Supervisor.start(
+      [{ name: "bad", script: "worker-bad.js", options: { initData: 5 } }],
+      { backoff: { initial: 10 } },
+    );
+    const first = supervisor.thread("bad");
+    const restarted = new Promise((res) =>
+      supervisor.addEventListener("restart", (e) => res(e)),
+    );
+    expect(await first.sendWork(3)).to.equal(9);
+
+    const e = await restarted;
+    expect(e.detail).to.equal("bad");
+    const thread = supervisor.thread("bad");
+    expect(thread.id()).to.equal(e.threadId);
+    expect(thread.id()).to.not.equal(first.id());
+
+    const message = new Promise((res) =>
+      thread.addEventListener("message", (e) => res(e.detail.data)),
+    );
+    thread.sendEvent(-23);
+    expect(await message).to.equal(5);
+    await supervisor.close();
+  });
+
+  it("stops after too many restarts", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const supervisor = await Supervisor.start(
+      [{ name: "bad", script: "worker-bad.js" }],
+      { backoff: { initial: 1 }, maxRestarts: 1 },
+    );
+    const failed = new Promise((res) =>
+      supervisor.addEventListener("failed", (e) => res(e)),
+    );
+    await supervisor.thread("bad").sendWork(2);
+    await new Promise((res) =>
+      supervisor.addEventListener("restart", res, { once: true }),
+    );
+    await supervisor.thread("bad").sendWork(2);
+
+    const e = await failed;
+    expect(e.detail).to.be.instanceOf(threads.RestartLimitError);
+    expect(supervisor.thread("bad")).to.be.undefined;
+  });
+
+  it("restarts every thread with one-for-all", async function () {
+    console.info(this.test.parent.title + ".`" + this.test.title + "`");
+    const supervisor = await Supervisor.start(
+      [
+        { name: "bad", script: "worker-bad.js" },
+        { name: "slow", script: "worker-slow.js", share: [42] },
+      ],
+      { strategy: "one-for-all", backoff: { initial: 10 } },
+    );
+    const slow = supervisor.thread("slow");
+    const restarted = [];
+    const done = new Promise((res) =>
+      supervisor.addEventListener("restart", (e) => {
+        restarted.push(e.detail);
+        if (restarted.length === 2) {
+          res();
+        }
+      }),
+    );
+    // the bad thread closes itself after each piece of work
+    await supervisor.thread("bad").sendWork(2);
+    await done;
+    expect(restarted).to.deep.equal(["bad", "slow"]);
+
+    // the restarted thread was given its shared items again
+    const thread = supervisor.thread("slow");
+    expect(thread.id()).to.not.equal(slow.id());
+    const message = new Promise((res) =>
+      thread.addEventListener("message", (e) => res(e.detail.data)),
+    );
+    thread.sendEvent(-23);
+    expect(await message).to.equal(42);
+    await supervisor.close();
+  });
 });
 
 describe("ConditionVariable", async function () {
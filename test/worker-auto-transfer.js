@@ -0,0 +1,18 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+self.onwork = ({ ints, keep }) => {
+  const doubled = ints.map((x) => x * 2);
+  return new threads.ResponseWithOptions(
+    { doubled, kept: keep.length },
+    { autoTransfer: true },
+  );
+};
@@ -0,0 +1,22 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+let envelopes = 0;
+let received = 0;
+
+// counts the messages that were actually posted to the thread
+const onmessage = self.onmessage;
+self.onmessage = (e) => {
+  ++envelopes;
+  return onmessage(e);
+};
+
+self.onwork = (work) => (work === "envelopes" ? envelopes : received++);
@@ -0,0 +1,30 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+threads.registerHandler("work", async (work) => {
+  if (work.type === "map") {
+    const res = [];
+    for (const item of work.items) {
+      res.push(await work.fn(item));
+    }
+    threads.releaseProxy(work.fn);
+    return res;
+  } else if (work.type === "adder") {
+    // send a function back to the main thread
+    return threads.proxyFunction((x) => x + work.amount);
+  } else if (work.type === "fail") {
+    try {
+      await work.fn();
+    } catch (e) {
+      return "caught " + e.message;
+    }
+  }
+});
@@ -0,0 +1,25 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+let cancelled = 0;
+
+self.onwork = async (w, { signal }) => {
+  if (w === "cancelled") {
+    return cancelled;
+  }
+  await new Promise((res) => {
+    signal.addEventListener("abort", () => {
+      ++cancelled;
+      res(null);
+    });
+  });
+  return w;
+};
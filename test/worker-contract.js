@@ -0,0 +1,25 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+threads.registerContract({
+  name: "square",
+  request: (x) => typeof x === "number" || "expected a number",
+  response: (x) => x < 100 || "result too large",
+  init: (init) => init === null || typeof init.offset === "number",
+});
+
+let offset = 0;
+
+threads.registerHandler("init", (init) => {
+  offset = init ? init.offset : 0;
+});
+
+threads.registerHandler("work", (x) => x * x + offset);
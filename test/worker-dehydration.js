@@ -0,0 +1,48 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+class Point {
+  constructor(x, y) {
+    this.x = x;
+    this.y = y;
+  }
+  static dehydrate(p) {
+    return { x: p.x, y: p.y };
+  }
+  static hydrate(v) {
+    return new Point(v.x, v.y);
+  }
+}
+
+class Size {
+  constructor(w, h) {
+    this.w = w;
+    this.h = h;
+  }
+  static dehydrate(s) {
+    return { w: s.w, h: s.h };
+  }
+  static hydrate(v) {
+    return new Size(v.w, v.h);
+  }
+}
+
+threads.registerDeHydration({ key: "Point", type: Point, version: 2 });
+threads.registerDeHydration({ key: "Size", type: Size });
+
+self.onwork = (value) => {
+  if (value instanceof Point) {
+    return new Size(value.x, value.y);
+  } else if (value instanceof Size) {
+    return new Point(value.w, value.h);
+  }
+  return null;
+};
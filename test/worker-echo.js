@@ -0,0 +1,23 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+self.onwork = ({ inspect, value }) => {
+  if (!inspect) {
+    return value;
+  }
+  return {
+    mutexInMap: value.locks.get("a") instanceof threads.Mutex,
+    mutexInSet: [...value.set][0] instanceof threads.Mutex,
+    cyclic: value.self === value,
+    shared: value.left === value.right,
+    date: value.date instanceof Date,
+  };
+};
@@ -0,0 +1,36 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+class CustomError extends Error {
+  constructor(code) {
+    super("Custom failure");
+    this.code = code;
+  }
+}
+threads.registerErrorClass(CustomError, "CustomError");
+
+self.onwork = (kind) => {
+  switch (kind) {
+    case "library":
+      throw new threads.OutOfBoundsError();
+    case "restarts":
+      throw new threads.RestartLimitError("child", 3, 1000);
+    case "custom":
+      throw new CustomError(42);
+    case "cause":
+      throw new Error("outer", { cause: new TypeError("inner") });
+    case "aggregate":
+      throw new AggregateError(
+        [new RangeError("first"), new threads.ThreadPoolClosedError()],
+        "many",
+      );
+  }
+};
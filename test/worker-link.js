@@ -0,0 +1,58 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+let peer = null;
+let buffer = null;
+
+threads.registerHandler("link", (p) => {
+  peer = p;
+});
+
+self.onevent = (e) => {
+  if (e.data === "bad") {
+    throw new Error("bad event");
+  }
+};
+
+threads.registerHandler("work", async (work) => {
+  switch (work.type) {
+    case "square":
+      return work.x * work.x;
+    case "ask":
+      // goes straight to the linked thread
+      return await peer.sendWork({ type: "square", x: work.x });
+    case "peerId":
+      return peer.id();
+    case "handoff": {
+      // send our handle somewhere else
+      const p = peer;
+      peer = null;
+      return p;
+    }
+    case "askVia":
+      return await work.peer.sendWork({ type: "square", x: work.x });
+    case "buffer":
+      // the buffer is found in the dehydrated response
+      buffer = new ArrayBuffer(work.size);
+      return new threads.ResponseWithTransfer({ buffer }, [
+        (message) => message.res.buffer,
+      ]);
+    case "askBuffer": {
+      const res = await peer.sendWork({ type: "buffer", size: work.size });
+      return res.buffer.byteLength;
+    }
+    case "transferred":
+      return buffer.byteLength === 0;
+    case "tell":
+      peer.sendEvent(work.event);
+      return null;
+  }
+});
@@ -0,0 +1,41 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+// shared counter of how many nested threads have closed
+let closed = null;
+let pool = null;
+
+threads.registerHandler("init", (init) => {
+  closed = init.closed;
+});
+
+threads.registerHandler("close", () => {
+  Atomics.add(closed, 0, 1);
+});
+
+threads.registerHandler("work", async (work) => {
+  switch (work.type) {
+    case "spawn": {
+      const child = await threads.Thread.spawn("worker-nested.js", {
+        initData: { closed },
+      });
+      if (work.depth > 1) {
+        await child.sendWork({ type: "spawn", depth: work.depth - 1 });
+      }
+      return child.id();
+    }
+    case "pool":
+      pool = await threads.ThreadPool.spawn("worker1.js", { maxThreads: 2 });
+      return await pool.sendWork(work.x);
+    case "children":
+      return threads.childThreads().map((t) => t.id());
+  }
+});
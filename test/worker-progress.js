@@ -0,0 +1,18 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+self.onwork = async (w, { reportProgress }) => {
+  for (let i = 1; i <= w; ++i) {
+    await new Promise((res) => setTimeout(res, 1));
+    reportProgress(i / w);
+  }
+  return w * w;
+};
@@ -0,0 +1,37 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+class Counter {
+  constructor() {
+    this.count = 0;
+  }
+
+  increment(by) {
+    this.count += by;
+    return this.count;
+  }
+
+  get doubled() {
+    return this.count * 2;
+  }
+}
+
+threads.expose({
+  math: {
+    square: (x) => x * x,
+    async cube(x) {
+      await new Promise((res) => setTimeout(res, 5));
+      return x * x * x;
+    },
+  },
+  counter: new Counter(),
+  version: "1.0",
+});
@@ -0,0 +1,30 @@
+/*
+    Copyright Matthew Tolman, 2026
+
+    This Source Code Form is subject to the terms of the Mozilla Public
+    License, v. 2.0. If a copy of the MPL was not distributed with this
+    file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+importScripts("/dist/threads.iife.js");
+threads.setLogging(true);
+
+let closed = 0;
+
+self.onwork = async function* (w) {
+  if (w === "closed") {
+    yield closed;
+    return;
+  }
+  if (w === "error") {
+    yield 1;
+    throw new Error("Stream failed");
+  }
+  try {
+    for (let i = 0; i < w; ++i) {
+      yield i * i;
+    }
+  } finally {
+    ++closed;
+  }
+};